@@ -0,0 +1,146 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getEventQueue } from "@/lib/events/queue";
+
+/**
+ * GET /api/events/queue/dead-letter
+ * Get a page of dead letter messages, including the last error for each
+ * Query: page, pageSize
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const eventQueue = getEventQueue();
+    await eventQueue.restore();
+    const { searchParams } = new URL(request.url);
+    const page = Number(searchParams.get("page") || "1");
+    const pageSize = Number(searchParams.get("pageSize") || "20");
+
+    if (!Number.isInteger(page) || page < 1 || !Number.isInteger(pageSize) || pageSize < 1) {
+      return invalidRequest("page and pageSize must be positive integers");
+    }
+
+    const result = eventQueue.listMessages("dead_letter", { page, pageSize });
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+      pagination: result.pagination,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "QUEUE_ERROR",
+          message: error instanceof Error ? error.message : "Unknown error",
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/events/queue/dead-letter
+ * Move dead letter messages back to the queue
+ * Body: { messageIds: string[] } or { all: true }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const eventQueue = getEventQueue();
+    await eventQueue.restore();
+    const body = await request.json();
+
+    const messageIds: string[] | undefined = body.all
+      ? eventQueue.getDeadLetterMessages().map((m) => m.id)
+      : body.messageIds;
+
+    if (!Array.isArray(messageIds) || messageIds.length === 0) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "INVALID_REQUEST",
+            message: "messageIds or all: true is required",
+          },
+          timestamp: new Date().toISOString(),
+        },
+        { status: 400 }
+      );
+    }
+
+    const retried = messageIds.filter((id) => eventQueue.retryDeadLetter(id));
+    const notFound = messageIds.filter((id) => !retried.includes(id));
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        retried,
+        notFound,
+        stats: eventQueue.getStats(),
+      },
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "QUEUE_RETRY_ERROR",
+          message: error instanceof Error ? error.message : "Unknown error",
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/events/queue/dead-letter
+ * Discard all dead letter messages
+ */
+export async function DELETE() {
+  try {
+    const eventQueue = getEventQueue();
+    await eventQueue.restore();
+    const cleared = eventQueue.getDeadLetterMessages().length;
+    eventQueue.clearDeadLetter();
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        cleared,
+        stats: eventQueue.getStats(),
+      },
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "QUEUE_ERROR",
+          message: error instanceof Error ? error.message : "Unknown error",
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+}
+
+function invalidRequest(message: string) {
+  return NextResponse.json(
+    {
+      success: false,
+      error: {
+        code: "INVALID_REQUEST",
+        message,
+      },
+      timestamp: new Date().toISOString(),
+    },
+    { status: 400 }
+  );
+}
@@ -0,0 +1,228 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getEventBus } from "@/lib/events/event-bus";
+import { getEventQueue } from "@/lib/events/queue";
+import { isEventType, validateEventPayload } from "@/lib/events/validation";
+
+/**
+ * GET /api/events/queue
+ * Get queue stats and a page of pending messages
+ * Query: page, pageSize
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const eventQueue = getEventQueue();
+    await eventQueue.restore();
+    const { searchParams } = new URL(request.url);
+    const page = Number(searchParams.get("page") || "1");
+    const pageSize = Number(searchParams.get("pageSize") || "20");
+
+    if (!Number.isInteger(page) || page < 1 || !Number.isInteger(pageSize) || pageSize < 1) {
+      return invalidRequest("page and pageSize must be positive integers");
+    }
+
+    const result = eventQueue.listMessages("pending", { page, pageSize });
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+      pagination: result.pagination,
+      stats: eventQueue.getStats(),
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "QUEUE_ERROR",
+          message: error instanceof Error ? error.message : "Unknown error",
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/events/queue
+ * Enqueue an event, optionally delayed by delayMs or scheduled at an ISO timestamp
+ * Body: type, payload, source?, priority?, delayMs?, scheduledAt?, correlationId?, idempotencyKey?, partitionKey?
+ * The Idempotency-Key header may be used instead of idempotencyKey; a repeat inside the
+ * dedup window returns the original message ID with duplicate: true
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const eventBus = getEventBus();
+    const eventQueue = getEventQueue();
+    await eventQueue.restore();
+    const body = await request.json();
+    const { type, payload, source, priority = 0, delayMs, scheduledAt, correlationId, partitionKey } = body;
+    const idempotencyKey: string | undefined = body.idempotencyKey || request.headers.get("idempotency-key") || undefined;
+
+    if (!type || !payload) {
+      return invalidRequest("type and payload are required");
+    }
+    if (typeof priority !== "number" || !Number.isFinite(priority)) {
+      return invalidRequest("priority must be a number");
+    }
+    if (delayMs !== undefined && (typeof delayMs !== "number" || delayMs < 0)) {
+      return invalidRequest("delayMs must be a non-negative number");
+    }
+    if (scheduledAt !== undefined && isNaN(Date.parse(scheduledAt))) {
+      return invalidRequest("scheduledAt must be an ISO timestamp");
+    }
+
+    if (!isEventType(type)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "VALIDATION_ERROR",
+            message: `Unknown event type: ${type}`,
+            details: [{ path: "type", message: "Invalid event type" }],
+          },
+          timestamp: new Date().toISOString(),
+        },
+        { status: 400 }
+      );
+    }
+
+    const issues = validateEventPayload(type, payload);
+    if (issues.length > 0) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "VALIDATION_ERROR",
+            message: `Invalid payload for ${type}`,
+            details: issues,
+          },
+          timestamp: new Date().toISOString(),
+        },
+        { status: 400 }
+      );
+    }
+
+    const duplicateOf = idempotencyKey ? eventQueue.getMessageIdForKey(idempotencyKey) : undefined;
+    const event = eventBus.createEvent(type, payload, source || "api", { correlationId });
+    const messageId =
+      delayMs !== undefined
+        ? eventQueue.schedule(event, delayMs, priority, { idempotencyKey, partitionKey })
+        : eventQueue.enqueue(event, priority, scheduledAt ? new Date(scheduledAt).toISOString() : undefined, {
+            idempotencyKey,
+            partitionKey,
+          });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        messageId,
+        duplicate: duplicateOf !== undefined,
+        event: duplicateOf ? undefined : event,
+      },
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "QUEUE_ENQUEUE_ERROR",
+          message: error instanceof Error ? error.message : "Unknown error",
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/events/queue
+ * Pause or resume processing
+ * Body: { paused: boolean }
+ */
+export async function PATCH(request: NextRequest) {
+  try {
+    const eventQueue = getEventQueue();
+    await eventQueue.restore();
+    const body = await request.json();
+
+    if (typeof body.paused !== "boolean") {
+      return invalidRequest("paused must be a boolean");
+    }
+
+    if (body.paused) {
+      eventQueue.pause();
+    } else {
+      eventQueue.resume();
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: eventQueue.getStats(),
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "QUEUE_ERROR",
+          message: error instanceof Error ? error.message : "Unknown error",
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/events/queue
+ * Drop all pending messages (dead letters are kept)
+ */
+export async function DELETE() {
+  try {
+    const eventQueue = getEventQueue();
+    await eventQueue.restore();
+    const cleared = eventQueue.getPendingMessages().length;
+    eventQueue.clear();
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        cleared,
+        stats: eventQueue.getStats(),
+      },
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "QUEUE_ERROR",
+          message: error instanceof Error ? error.message : "Unknown error",
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+}
+
+function invalidRequest(message: string) {
+  return NextResponse.json(
+    {
+      success: false,
+      error: {
+        code: "INVALID_REQUEST",
+        message,
+      },
+      timestamp: new Date().toISOString(),
+    },
+    { status: 400 }
+  );
+}
@@ -0,0 +1,130 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getEventQueue } from "@/lib/events/queue";
+
+/**
+ * GET /api/events/queue/schedules/[scheduleId]
+ * Get a recurring schedule
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ scheduleId: string }> }
+) {
+  try {
+    const { scheduleId } = await params;
+    const eventQueue = getEventQueue();
+    await eventQueue.restore();
+    const schedule = eventQueue.getSchedule(scheduleId);
+
+    if (!schedule) {
+      return scheduleNotFound(scheduleId);
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: schedule,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    return scheduleError(error);
+  }
+}
+
+/**
+ * PATCH /api/events/queue/schedules/[scheduleId]
+ * Pause or resume a recurring schedule
+ * Body: { paused: boolean }
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ scheduleId: string }> }
+) {
+  try {
+    const { scheduleId } = await params;
+    const eventQueue = getEventQueue();
+    await eventQueue.restore();
+    const body = await request.json();
+
+    if (typeof body.paused !== "boolean") {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "INVALID_REQUEST",
+            message: "paused must be a boolean",
+          },
+          timestamp: new Date().toISOString(),
+        },
+        { status: 400 }
+      );
+    }
+
+    const schedule = body.paused ? eventQueue.pauseSchedule(scheduleId) : eventQueue.resumeSchedule(scheduleId);
+    if (!schedule) {
+      return scheduleNotFound(scheduleId);
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: schedule,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    return scheduleError(error);
+  }
+}
+
+/**
+ * DELETE /api/events/queue/schedules/[scheduleId]
+ * Remove a recurring schedule; messages it already enqueued are kept
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ scheduleId: string }> }
+) {
+  try {
+    const { scheduleId } = await params;
+
+    const eventQueue = getEventQueue();
+    await eventQueue.restore();
+
+    if (!eventQueue.removeSchedule(scheduleId)) {
+      return scheduleNotFound(scheduleId);
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { id: scheduleId },
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    return scheduleError(error);
+  }
+}
+
+function scheduleNotFound(scheduleId: string) {
+  return NextResponse.json(
+    {
+      success: false,
+      error: {
+        code: "SCHEDULE_NOT_FOUND",
+        message: `Schedule not found: ${scheduleId}`,
+      },
+      timestamp: new Date().toISOString(),
+    },
+    { status: 404 }
+  );
+}
+
+function scheduleError(error: unknown) {
+  return NextResponse.json(
+    {
+      success: false,
+      error: {
+        code: "SCHEDULE_ERROR",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      timestamp: new Date().toISOString(),
+    },
+    { status: 500 }
+  );
+}
@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isValidCronExpression, isValidTimeZone } from "@/lib/events/cron";
+import { getEventQueue } from "@/lib/events/queue";
+import { isEventType, validateEventPayload } from "@/lib/events/validation";
+
+const CATCH_UP_POLICIES = ["all", "latest", "none"];
+
+/**
+ * GET /api/events/queue/schedules
+ * List recurring schedules
+ */
+export async function GET() {
+  try {
+    const eventQueue = getEventQueue();
+    await eventQueue.restore();
+
+    return NextResponse.json({
+      success: true,
+      data: eventQueue.listSchedules(),
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "SCHEDULE_ERROR",
+          message: error instanceof Error ? error.message : "Unknown error",
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/events/queue/schedules
+ * Create a recurring schedule
+ * Body: name, cron, eventType, payload, timezone?, source?, priority?, paused?, catchUp? (all | latest | none)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const eventQueue = getEventQueue();
+    await eventQueue.restore();
+    const body = await request.json();
+    const { name, cron, eventType, payload, timezone, source, priority, paused, catchUp } = body;
+
+    const details: { path: string; message: string }[] = [];
+    if (!name || typeof name !== "string") details.push({ path: "name", message: "name is required" });
+    if (!cron || !isValidCronExpression(cron)) details.push({ path: "cron", message: "Invalid cron expression" });
+    if (timezone !== undefined && !isValidTimeZone(timezone)) details.push({ path: "timezone", message: "Unknown time zone" });
+    if (priority !== undefined && typeof priority !== "number") details.push({ path: "priority", message: "priority must be a number" });
+    if (catchUp !== undefined && !CATCH_UP_POLICIES.includes(catchUp)) {
+      details.push({ path: "catchUp", message: `catchUp must be one of ${CATCH_UP_POLICIES.join(", ")}` });
+    }
+    if (!isEventType(eventType)) {
+      details.push({ path: "eventType", message: "Invalid event type" });
+    } else {
+      details.push(...validateEventPayload(eventType, payload));
+    }
+
+    if (details.length > 0) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Invalid schedule",
+            details,
+          },
+          timestamp: new Date().toISOString(),
+        },
+        { status: 400 }
+      );
+    }
+
+    const schedule = eventQueue.addSchedule({
+      name,
+      cron,
+      eventType,
+      payload,
+      timezone,
+      source,
+      priority,
+      paused,
+      catchUp,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: schedule,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "SCHEDULE_CREATE_ERROR",
+          message: error instanceof Error ? error.message : "Unknown error",
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+}
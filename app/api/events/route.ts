@@ -1,23 +1,49 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getEventBus } from "@/lib/events/event-bus";
 import { getEventQueue } from "@/lib/events/queue";
-import { EventType } from "@/types/events";
+import { decodeCloudEventHttp, fromCloudEvent, isCloudEventHttp } from "@/lib/events/cloudevents";
+import { EventValidationError, isEventType, validateEventPayload } from "@/lib/events/validation";
+import { EventFilterOptions } from "@/types/events";
 
 /**
  * GET /api/events
- * Get event history and queue stats
+ * Get event history, per-handler processing outcomes and queue stats
+ * Filters: type, source, correlationId, startDate, endDate, fromOffset, eventId,
+ * subscriptionId, processingStatus (success | failed), limit
  */
 export async function GET(request: NextRequest) {
   try {
     const eventBus = getEventBus();
     const eventQueue = getEventQueue();
+    await eventQueue.restore();
 
     const { searchParams } = new URL(request.url);
-    const type = searchParams.get("type");
+    const types = searchParams.getAll("type").filter(isEventType);
+    const startDate = searchParams.get("startDate");
+    const endDate = searchParams.get("endDate");
+    const fromOffset = searchParams.get("fromOffset");
+    const processingStatus = searchParams.get("processingStatus");
     const limit = parseInt(searchParams.get("limit") || "50");
 
-    const history = eventBus.getHistory({
-      eventType: type as EventType | undefined,
+    const filter: EventFilterOptions = {
+      eventTypes: types.length > 0 ? types : undefined,
+      source: searchParams.get("source") || undefined,
+      correlationId: searchParams.get("correlationId") || undefined,
+      startDate: startDate ? new Date(startDate) : undefined,
+      endDate: endDate ? new Date(endDate) : undefined,
+    };
+
+    const history = await eventBus.readStored({
+      ...filter,
+      fromOffset: fromOffset ? parseInt(fromOffset) : undefined,
+      limit,
+    });
+
+    const processing = eventBus.getProcessingHistory({
+      ...filter,
+      eventId: searchParams.get("eventId") || undefined,
+      subscriptionId: searchParams.get("subscriptionId") || undefined,
+      success: processingStatus ? processingStatus === "success" : undefined,
       limit,
     });
 
@@ -26,7 +52,9 @@ export async function GET(request: NextRequest) {
     return NextResponse.json({
       success: true,
       data: {
-        history,
+        history: history.map((s) => ({ ...s.event, offset: s.offset })),
+        latestOffset: await eventBus.getLatestOffset(),
+        processing,
         queueStats,
         subscriptions: eventBus.getSubscriptions().length,
       },
@@ -50,12 +78,25 @@ export async function GET(request: NextRequest) {
 /**
  * POST /api/events
  * Publish a new event
+ * Body: { type, payload, source?, correlationId?, causationId? }, or a CloudEvents 1.0 event in
+ * structured (application/cloudevents+json, or JSON with specversion) or binary (ce-* headers) mode
  */
 export async function POST(request: NextRequest) {
   try {
     const eventBus = getEventBus();
-    const body = await request.json();
-    const { type, payload, source } = body;
+    const text = await request.text();
+
+    // Binary-mode data need not be JSON, so check the headers before parsing
+    if (isCloudEventHttp(request.headers)) {
+      return await publishCloudEvent(request.headers, text);
+    }
+
+    const body = JSON.parse(text);
+    if (body && typeof body === "object" && "specversion" in body) {
+      return await publishCloudEvent(request.headers, text);
+    }
+
+    const { type, payload, source, correlationId, causationId } = body;
 
     if (!type || !payload) {
       return NextResponse.json(
@@ -71,7 +112,38 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const event = eventBus.createEvent(type, payload, source || "api");
+    if (!isEventType(type)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "VALIDATION_ERROR",
+            message: `Unknown event type: ${type}`,
+            details: [{ path: "type", message: "Invalid event type" }],
+          },
+          timestamp: new Date().toISOString(),
+        },
+        { status: 400 }
+      );
+    }
+
+    const issues = validateEventPayload(type, payload);
+    if (issues.length > 0) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "VALIDATION_ERROR",
+            message: `Invalid payload for ${type}`,
+            details: issues,
+          },
+          timestamp: new Date().toISOString(),
+        },
+        { status: 400 }
+      );
+    }
+
+    const event = eventBus.createEvent(type, payload, source || "api", { correlationId, causationId });
     await eventBus.publish(event);
 
     return NextResponse.json({
@@ -80,6 +152,21 @@ export async function POST(request: NextRequest) {
       timestamp: new Date().toISOString(),
     });
   } catch (error) {
+    if (error instanceof EventValidationError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "VALIDATION_ERROR",
+            message: error.message,
+            details: error.issues,
+          },
+          timestamp: new Date().toISOString(),
+        },
+        { status: 400 }
+      );
+    }
+
     return NextResponse.json(
       {
         success: false,
@@ -94,3 +181,36 @@ export async function POST(request: NextRequest) {
   }
 }
 
+/**
+ * Publish an event sent as a CloudEvent
+ * The CloudEvent source plus id become the idempotency key, so idempotent handlers skip redeliveries
+ */
+async function publishCloudEvent(headers: Headers, body: string) {
+  const decoded = decodeCloudEventHttp(headers, body);
+  const converted = decoded.success ? fromCloudEvent(decoded.cloudEvent) : decoded;
+
+  if (!converted.success) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "VALIDATION_ERROR",
+          message: "Invalid CloudEvent",
+          details: converted.issues,
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: 400 }
+    );
+  }
+
+  const event = converted.event;
+  const { cloudEventSource, cloudEventId } = event.metadata!;
+  await getEventBus().publish(event, { idempotencyKey: `cloudevents:${cloudEventSource}:${cloudEventId}` });
+
+  return NextResponse.json({
+    success: true,
+    data: event,
+    timestamp: new Date().toISOString(),
+  });
+}
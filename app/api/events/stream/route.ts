@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getEventBus } from "@/lib/events/event-bus";
+import { isValidEventPattern } from "@/lib/events/patterns";
+import { Event, EventHandlerContext, EventPattern } from "@/types/events";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+const HEARTBEAT_INTERVAL_MS = 15000;
+
+/**
+ * GET /api/events/stream
+ * Stream events as Server-Sent Events
+ * Filters: type (exact event type) and pattern (e.g. ticket.*), both repeatable
+ * Resume: Last-Event-ID header or lastEventId query param replays events after that offset
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const patterns = [...searchParams.getAll("type"), ...searchParams.getAll("pattern")];
+  const invalid = patterns.filter((pattern) => !isValidEventPattern(pattern));
+
+  if (invalid.length > 0) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INVALID_PATTERN",
+          message: `Invalid event type or pattern: ${invalid.join(", ")}`,
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: 400 }
+    );
+  }
+
+  const lastEventId = request.headers.get("last-event-id") || searchParams.get("lastEventId");
+  const lastOffset = lastEventId !== null ? parseInt(lastEventId) : NaN;
+  const eventType: EventPattern[] = patterns.length > 0 ? (patterns as EventPattern[]) : ["*"];
+
+  const eventBus = getEventBus();
+  const encoder = new TextEncoder();
+  let subscriptionId: string | null = null;
+  let heartbeat: ReturnType<typeof setInterval> | null = null;
+  let closed = false;
+
+  const cleanup = () => {
+    if (closed) return;
+    closed = true;
+    if (heartbeat) clearInterval(heartbeat);
+    if (subscriptionId) eventBus.unsubscribe(subscriptionId);
+  };
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (chunk: string) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          cleanup();
+        }
+      };
+
+      const handler = async (event: Event, context?: EventHandlerContext) => {
+        const id = context ? `id: ${context.offset}\n` : "";
+        send(`${id}data: ${JSON.stringify(event)}\n\n`);
+      };
+
+      request.signal.addEventListener("abort", () => {
+        cleanup();
+        try {
+          controller.close();
+        } catch {
+          // Stream already closed
+        }
+      });
+
+      send(`retry: 3000\n\n`);
+      heartbeat = setInterval(() => send(`: ping\n\n`), HEARTBEAT_INTERVAL_MS);
+
+      const subscription = { id: `sse-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`, eventType, handler };
+      subscriptionId = subscription.id;
+
+      if (!Number.isNaN(lastOffset)) {
+        await eventBus.subscribeWithReplay(subscription, { fromOffset: lastOffset + 1 });
+      } else {
+        eventBus.subscribe(subscription);
+      }
+
+      // The client may have disconnected while the replay was running
+      if (closed) eventBus.unsubscribe(subscription.id);
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
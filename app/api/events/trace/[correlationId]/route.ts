@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getEventBus } from "@/lib/events/event-bus";
+
+/**
+ * GET /api/events/trace/[correlationId]
+ * Get the causal tree of events sharing a correlation ID
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ correlationId: string }> }
+) {
+  try {
+    const { correlationId } = await params;
+    const eventBus = getEventBus();
+    const trace = await eventBus.getTrace(correlationId);
+
+    if (trace.length === 0) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "TRACE_NOT_FOUND",
+            message: `No events found for correlation ID: ${correlationId}`,
+          },
+          timestamp: new Date().toISOString(),
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        correlationId,
+        trace,
+      },
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "TRACE_ERROR",
+          message: error instanceof Error ? error.message : "Unknown error",
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+}
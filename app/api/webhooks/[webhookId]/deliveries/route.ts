@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getWebhookHandler } from "@/lib/events/webhook-handlers";
+
+/**
+ * GET /api/webhooks/[webhookId]/deliveries
+ * Get a webhook's recent delivery attempts, oldest first
+ * Query: success (true | false), since, until (ISO timestamps), limit
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ webhookId: string }> }
+) {
+  try {
+    const { webhookId } = await params;
+    const { searchParams } = new URL(request.url);
+    const success = searchParams.get("success");
+    const since = searchParams.get("since") || undefined;
+    const until = searchParams.get("until") || undefined;
+    const limit = searchParams.get("limit");
+
+    if (success !== null && success !== "true" && success !== "false") {
+      return invalidRequest("success must be true or false");
+    }
+    if ((since && isNaN(Date.parse(since))) || (until && isNaN(Date.parse(until)))) {
+      return invalidRequest("since and until must be ISO timestamps");
+    }
+
+    const webhookHandler = getWebhookHandler();
+    await webhookHandler.restore();
+    if (!webhookHandler.getWebhook(webhookId)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "WEBHOOK_NOT_FOUND",
+            message: `Webhook not found: ${webhookId}`,
+          },
+          timestamp: new Date().toISOString(),
+        },
+        { status: 404 }
+      );
+    }
+
+    const history = webhookHandler.getDeliveryHistory({
+      webhookId,
+      success: success === null ? undefined : success === "true",
+      since,
+      until,
+      limit: limit ? parseInt(limit) : undefined,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: history,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "WEBHOOK_ERROR",
+          message: error instanceof Error ? error.message : "Unknown error",
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+}
+
+function invalidRequest(message: string) {
+  return NextResponse.json(
+    {
+      success: false,
+      error: {
+        code: "INVALID_REQUEST",
+        message,
+      },
+      timestamp: new Date().toISOString(),
+    },
+    { status: 400 }
+  );
+}
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getWebhookRedeliveryService } from "@/lib/events/webhook-redelivery";
+
+/**
+ * GET /api/webhooks/[webhookId]/redeliveries/[jobId]
+ * Get a redelivery job's progress
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ webhookId: string; jobId: string }> }
+) {
+  try {
+    const { webhookId, jobId } = await params;
+    const service = getWebhookRedeliveryService();
+    await service.restore();
+    const job = service.getJob(jobId);
+
+    if (!job || job.webhookId !== webhookId) {
+      return redeliveryNotFound(jobId);
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: job,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    return redeliveryError(error);
+  }
+}
+
+/**
+ * DELETE /api/webhooks/[webhookId]/redeliveries/[jobId]
+ * Cancel a running job; events already delivered stay delivered
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ webhookId: string; jobId: string }> }
+) {
+  try {
+    const { webhookId, jobId } = await params;
+    const service = getWebhookRedeliveryService();
+    await service.restore();
+
+    if (service.getJob(jobId)?.webhookId !== webhookId) {
+      return redeliveryNotFound(jobId);
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: service.cancel(jobId),
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    return redeliveryError(error);
+  }
+}
+
+function redeliveryNotFound(jobId: string) {
+  return NextResponse.json(
+    {
+      success: false,
+      error: {
+        code: "REDELIVERY_NOT_FOUND",
+        message: `Redelivery job not found: ${jobId}`,
+      },
+      timestamp: new Date().toISOString(),
+    },
+    { status: 404 }
+  );
+}
+
+function redeliveryError(error: unknown) {
+  return NextResponse.json(
+    {
+      success: false,
+      error: {
+        code: "REDELIVERY_ERROR",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      timestamp: new Date().toISOString(),
+    },
+    { status: 500 }
+  );
+}
@@ -0,0 +1,168 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isEventType } from "@/lib/events/validation";
+import { getWebhookHandler } from "@/lib/events/webhook-handlers";
+import { getWebhookRedeliveryService } from "@/lib/events/webhook-redelivery";
+
+/**
+ * GET /api/webhooks/[webhookId]/redeliveries
+ * List a webhook's redelivery jobs, most recent first
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ webhookId: string }> }
+) {
+  try {
+    const { webhookId } = await params;
+    const service = getWebhookRedeliveryService();
+    await service.restore();
+
+    return NextResponse.json({
+      success: true,
+      data: service.listJobs(webhookId),
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    return redeliveryError(error);
+  }
+}
+
+/**
+ * POST /api/webhooks/[webhookId]/redeliveries
+ * Start re-sending stored events to the webhook; poll the returned job for progress
+ * A webhook runs one job at a time; starting another while one runs returns 409
+ * Body: startDate, endDate?, eventTypes?, ratePerSecond? (default 10, at most 100)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ webhookId: string }> }
+) {
+  try {
+    const { webhookId } = await params;
+    const webhookHandler = getWebhookHandler();
+    const service = getWebhookRedeliveryService();
+    await webhookHandler.restore();
+    await service.restore();
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return invalidRequest("Body must be valid JSON");
+    }
+    if (body === null || typeof body !== "object" || Array.isArray(body)) {
+      return invalidRequest("Body must be a JSON object");
+    }
+    const { startDate, endDate, eventTypes, ratePerSecond } = body as Record<string, unknown>;
+
+    if (
+      typeof startDate !== "string" ||
+      isNaN(Date.parse(startDate)) ||
+      (endDate !== undefined && endDate !== null && (typeof endDate !== "string" || isNaN(Date.parse(endDate))))
+    ) {
+      return invalidRequest("startDate is required; startDate and endDate must be ISO timestamps");
+    }
+    if (endDate && Date.parse(endDate) < Date.parse(startDate)) {
+      return invalidRequest("endDate must not be before startDate");
+    }
+    if (eventTypes !== undefined && (!Array.isArray(eventTypes) || !eventTypes.every(isEventType))) {
+      return invalidRequest("eventTypes must be a list of known event types");
+    }
+    if (ratePerSecond !== undefined && !(typeof ratePerSecond === "number" && ratePerSecond > 0)) {
+      return invalidRequest("ratePerSecond must be a positive number");
+    }
+
+    const webhook = webhookHandler.getWebhook(webhookId);
+    if (!webhook) {
+      return webhookNotFound(webhookId);
+    }
+    if (!webhook.active) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "WEBHOOK_INACTIVE",
+            message: `Webhook is inactive: ${webhookId}`,
+          },
+          timestamp: new Date().toISOString(),
+        },
+        { status: 409 }
+      );
+    }
+
+    const result = await service.start({
+      webhookId,
+      startDate: new Date(startDate),
+      endDate: endDate ? new Date(endDate) : undefined,
+      eventTypes,
+      ratePerSecond,
+    });
+
+    if (result.status === "already_running") {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "REDELIVERY_RUNNING",
+            message: `Redelivery ${result.job.id} is already running for webhook ${webhookId}`,
+            details: { jobId: result.job.id },
+          },
+          timestamp: new Date().toISOString(),
+        },
+        { status: 409 }
+      );
+    }
+    if (result.status === "webhook_not_found") {
+      return webhookNotFound(webhookId);
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.job,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    return redeliveryError(error);
+  }
+}
+
+function invalidRequest(message: string) {
+  return NextResponse.json(
+    {
+      success: false,
+      error: {
+        code: "INVALID_REQUEST",
+        message,
+      },
+      timestamp: new Date().toISOString(),
+    },
+    { status: 400 }
+  );
+}
+
+function webhookNotFound(webhookId: string) {
+  return NextResponse.json(
+    {
+      success: false,
+      error: {
+        code: "WEBHOOK_NOT_FOUND",
+        message: `Webhook not found: ${webhookId}`,
+      },
+      timestamp: new Date().toISOString(),
+    },
+    { status: 404 }
+  );
+}
+
+function redeliveryError(error: unknown) {
+  return NextResponse.json(
+    {
+      success: false,
+      error: {
+        code: "REDELIVERY_ERROR",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      timestamp: new Date().toISOString(),
+    },
+    { status: 500 }
+  );
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getWebhookHandler, redactWebhookSecret } from "@/lib/events/webhook-handlers";
+
+/**
+ * POST /api/webhooks/[webhookId]/reenable
+ * Reactivate a webhook, closing its circuit, and deliver the backlog held while it was down
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ webhookId: string }> }
+) {
+  try {
+    const { webhookId } = await params;
+    const webhookHandler = getWebhookHandler();
+    await webhookHandler.restore();
+
+    const result = webhookHandler.reenableWebhook(webhookId);
+    if (!result) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "WEBHOOK_NOT_FOUND",
+            message: `Webhook not found: ${webhookId}`,
+          },
+          timestamp: new Date().toISOString(),
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { webhook: redactWebhookSecret(result.webhook), flushed: result.flushed },
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "WEBHOOK_ERROR",
+          message: error instanceof Error ? error.message : "Unknown error",
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,163 @@
+import { NextRequest, NextResponse } from "next/server";
+import { validateWebhookConfig } from "@/lib/events/validation";
+import { getWebhookHandler, redactWebhookSecret } from "@/lib/events/webhook-handlers";
+import { WebhookConfig } from "@/types/events";
+
+const UPDATABLE_FIELDS = [
+  "url",
+  "events",
+  "secret",
+  "active",
+  "retryCount",
+  "timeout",
+  "filter",
+  "payloadTemplate",
+  "cloudEvents",
+] as const;
+
+// Optional fields that a null in the body removes
+const CLEARABLE_FIELDS: readonly string[] = ["secret", "filter", "payloadTemplate", "cloudEvents"];
+
+/**
+ * GET /api/webhooks/[webhookId]
+ * Get a webhook
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ webhookId: string }> }
+) {
+  try {
+    const { webhookId } = await params;
+    const webhookHandler = getWebhookHandler();
+    await webhookHandler.restore();
+
+    const webhook = webhookHandler.getWebhook(webhookId);
+    if (!webhook) {
+      return webhookNotFound(webhookId);
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: redactWebhookSecret(webhook),
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    return webhookError(error);
+  }
+}
+
+/**
+ * PATCH /api/webhooks/[webhookId]
+ * Update a webhook
+ * Body: any of url, events, secret, active, retryCount, timeout, filter, payloadTemplate, cloudEvents
+ * A null secret, filter, payloadTemplate or cloudEvents removes it
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ webhookId: string }> }
+) {
+  try {
+    const { webhookId } = await params;
+    const webhookHandler = getWebhookHandler();
+    await webhookHandler.restore();
+    const body = await request.json();
+
+    const existing = webhookHandler.getWebhook(webhookId);
+    if (!existing) {
+      return webhookNotFound(webhookId);
+    }
+
+    const updates: Partial<WebhookConfig> = {};
+    for (const field of UPDATABLE_FIELDS) {
+      if (field in body) {
+        updates[field] = CLEARABLE_FIELDS.includes(field) && body[field] === null ? undefined : body[field];
+      }
+    }
+
+    const validation = validateWebhookConfig({ ...existing, ...updates });
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Invalid webhook",
+            details: validation.issues,
+          },
+          timestamp: new Date().toISOString(),
+        },
+        { status: 400 }
+      );
+    }
+
+    // Apply the parsed values of the changed fields
+    const parsed = validation.data;
+    const parsedUpdates = Object.fromEntries(
+      Object.keys(updates).map((field) => [field, parsed[field as keyof WebhookConfig]])
+    ) as Partial<WebhookConfig>;
+    const webhook = webhookHandler.updateWebhook(webhookId, parsedUpdates)!;
+
+    return NextResponse.json({
+      success: true,
+      data: redactWebhookSecret(webhook),
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    return webhookError(error);
+  }
+}
+
+/**
+ * DELETE /api/webhooks/[webhookId]
+ * Unregister a webhook; its delivery history is kept
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ webhookId: string }> }
+) {
+  try {
+    const { webhookId } = await params;
+    const webhookHandler = getWebhookHandler();
+    await webhookHandler.restore();
+
+    if (!webhookHandler.unregisterWebhook(webhookId)) {
+      return webhookNotFound(webhookId);
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { id: webhookId },
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    return webhookError(error);
+  }
+}
+
+function webhookNotFound(webhookId: string) {
+  return NextResponse.json(
+    {
+      success: false,
+      error: {
+        code: "WEBHOOK_NOT_FOUND",
+        message: `Webhook not found: ${webhookId}`,
+      },
+      timestamp: new Date().toISOString(),
+    },
+    { status: 404 }
+  );
+}
+
+function webhookError(error: unknown) {
+  return NextResponse.json(
+    {
+      success: false,
+      error: {
+        code: "WEBHOOK_ERROR",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      timestamp: new Date().toISOString(),
+    },
+    { status: 500 }
+  );
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getWebhookHandler } from "@/lib/events/webhook-handlers";
+
+/**
+ * POST /api/webhooks/[webhookId]/test
+ * Send a webhook.ping event and return the delivery result
+ * A failed ping is still a successful request; check data.success
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ webhookId: string }> }
+) {
+  try {
+    const { webhookId } = await params;
+    const webhookHandler = getWebhookHandler();
+    await webhookHandler.restore();
+
+    if (!webhookHandler.getWebhook(webhookId)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "WEBHOOK_NOT_FOUND",
+            message: `Webhook not found: ${webhookId}`,
+          },
+          timestamp: new Date().toISOString(),
+        },
+        { status: 404 }
+      );
+    }
+
+    const result = await webhookHandler.sendTestPing(webhookId);
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "WEBHOOK_TEST_ERROR",
+          message: error instanceof Error ? error.message : "Unknown error",
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getInboundWebhookReceiver, InboundWebhookResult } from "@/lib/events/inbound-webhooks";
+
+const REJECTION_STATUS: Record<Extract<InboundWebhookResult, { status: "rejected" }>["reason"], number> = {
+  unknown_service: 400,
+  not_configured: 503,
+  invalid_signature: 401,
+};
+
+const REJECTION_CODE: Record<Extract<InboundWebhookResult, { status: "rejected" }>["reason"], string> = {
+  unknown_service: "INVALID_SERVICE",
+  not_configured: "NOT_CONFIGURED",
+  invalid_signature: "INVALID_SIGNATURE",
+};
+
+/**
+ * POST /api/webhooks/inbound/[service]
+ * Receive a signed callback from an external system and publish the matching internal event
+ * Headers: X-Webhook-Timestamp, X-Webhook-Signature (sha256=HMAC of "<timestamp>.<body>")
+ * Body: { event, id?, occurred_at?, data } with a snake_case entity in data, or a CloudEvent
+ * (structured or binary mode) for services configured with INBOUND_WEBHOOK_FORMAT_<SERVICE>=cloudevents
+ * Authentic bodies that cannot be converted are quarantined and answered with 422; a repeat of an
+ * already published external event ID is acknowledged without publishing it again
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ service: string }> }
+) {
+  try {
+    const { service } = await params;
+    const body = await request.text();
+    const result = await getInboundWebhookReceiver().receive(service, body, request.headers);
+
+    if (result.status === "rejected") {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: REJECTION_CODE[result.reason],
+            message: result.message,
+          },
+          timestamp: new Date().toISOString(),
+        },
+        { status: REJECTION_STATUS[result.reason] }
+      );
+    }
+
+    if (result.status === "quarantined") {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "PAYLOAD_QUARANTINED",
+            message: result.entry.error,
+            details: { quarantineId: result.entry.id, reason: result.entry.reason, issues: result.entry.details },
+          },
+          timestamp: new Date().toISOString(),
+        },
+        { status: 422 }
+      );
+    }
+
+    if (result.status === "duplicate") {
+      return NextResponse.json({
+        success: true,
+        data: { duplicate: true, externalEventId: result.externalEventId },
+        timestamp: new Date().toISOString(),
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { eventId: result.event.id, type: result.event.type },
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INBOUND_WEBHOOK_ERROR",
+          message: error instanceof Error ? error.message : "Unknown error",
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getInboundWebhookReceiver } from "@/lib/events/inbound-webhooks";
+
+/**
+ * GET /api/webhooks/inbound/quarantine
+ * Get a page of quarantined inbound payloads, newest first
+ * Query: service, page, pageSize
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const service = searchParams.get("service") || undefined;
+    const page = Number(searchParams.get("page") || "1");
+    const pageSize = Number(searchParams.get("pageSize") || "20");
+
+    if (!Number.isInteger(page) || page < 1 || !Number.isInteger(pageSize) || pageSize < 1) {
+      return invalidRequest("page and pageSize must be positive integers");
+    }
+
+    const entries = await getInboundWebhookReceiver().listQuarantined(service);
+    const start = (page - 1) * pageSize;
+
+    return NextResponse.json({
+      success: true,
+      data: entries.slice(start, start + pageSize),
+      pagination: {
+        page,
+        pageSize,
+        total: entries.length,
+        totalPages: Math.ceil(entries.length / pageSize),
+      },
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    return quarantineError(error);
+  }
+}
+
+/**
+ * DELETE /api/webhooks/inbound/quarantine
+ * Remove one quarantined payload, or all of them
+ * Query: id, or all=true to clear the quarantine
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const receiver = getInboundWebhookReceiver();
+    const { searchParams } = new URL(request.url);
+    const id = searchParams.get("id");
+    const all = searchParams.get("all") === "true";
+
+    if (!id && !all) {
+      return invalidRequest("id is required; pass all=true to clear the quarantine");
+    }
+
+    if (!id) {
+      await receiver.clearQuarantined();
+    } else if (!(await receiver.removeQuarantined(id))) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "QUARANTINE_ENTRY_NOT_FOUND",
+            message: `Quarantined payload not found: ${id}`,
+          },
+          timestamp: new Date().toISOString(),
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { id: id || undefined, cleared: !id },
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    return quarantineError(error);
+  }
+}
+
+function invalidRequest(message: string) {
+  return NextResponse.json(
+    {
+      success: false,
+      error: {
+        code: "INVALID_REQUEST",
+        message,
+      },
+      timestamp: new Date().toISOString(),
+    },
+    { status: 400 }
+  );
+}
+
+function quarantineError(error: unknown) {
+  return NextResponse.json(
+    {
+      success: false,
+      error: {
+        code: "QUARANTINE_ERROR",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      timestamp: new Date().toISOString(),
+    },
+    { status: 500 }
+  );
+}
@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from "next/server";
+import { validateWebhookConfig } from "@/lib/events/validation";
+import { createWebhookConfig, getWebhookHandler, redactWebhookSecret } from "@/lib/events/webhook-handlers";
+
+/**
+ * GET /api/webhooks
+ * List registered webhooks; secrets are never returned
+ */
+export async function GET() {
+  try {
+    const webhookHandler = getWebhookHandler();
+    await webhookHandler.restore();
+
+    return NextResponse.json({
+      success: true,
+      data: webhookHandler.getWebhooks().map(redactWebhookSecret),
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "WEBHOOK_ERROR",
+          message: error instanceof Error ? error.message : "Unknown error",
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/webhooks
+ * Register a webhook
+ * Body: url, events, id?, secret?, active?, retryCount?, timeout?, filter?, payloadTemplate?, cloudEvents?
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const webhookHandler = getWebhookHandler();
+    await webhookHandler.restore();
+    const body = await request.json();
+    const { id, url, events, secret, active, retryCount, timeout, filter, payloadTemplate, cloudEvents } = body;
+
+    const candidate = createWebhookConfig(url, events, {
+      id,
+      secret,
+      active,
+      retryCount,
+      timeout,
+      filter,
+      payloadTemplate,
+      cloudEvents,
+    });
+    // Register what the schema parsed, not the raw request values
+    const validation = validateWebhookConfig(candidate);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Invalid webhook",
+            details: validation.issues,
+          },
+          timestamp: new Date().toISOString(),
+        },
+        { status: 400 }
+      );
+    }
+
+    const config = validation.data;
+    if (webhookHandler.getWebhook(config.id)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "WEBHOOK_EXISTS",
+            message: `Webhook already exists: ${config.id}`,
+          },
+          timestamp: new Date().toISOString(),
+        },
+        { status: 409 }
+      );
+    }
+
+    webhookHandler.registerWebhook(config);
+
+    return NextResponse.json({
+      success: true,
+      data: redactWebhookSecret(config),
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "WEBHOOK_CREATE_ERROR",
+          message: error instanceof Error ? error.message : "Unknown error",
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -3,7 +3,7 @@
 import { useState, useEffect, useRef } from "react";
 import { Sidebar } from "./sidebar";
 import { Header } from "./header";
-import { useStore } from "@/lib/storage";
+import { useStore, useEventStream } from "@/lib/storage";
 
 interface AppShellProps {
   children: React.ReactNode;
@@ -14,6 +14,9 @@ export function AppShell({ children }: AppShellProps) {
   const initialized = useStore((state) => state.initialized);
   const initRef = useRef(false);
 
+  // Feed live server events into the store
+  useEventStream();
+
   // Initialize store on mount (only once)
   useEffect(() => {
     if (!initialized && !initRef.current) {
@@ -17,6 +17,7 @@ import {
 } from "@heroui/react";
 import { useTheme } from "next-themes";
 import { useState, useEffect } from "react";
+import { useStore, useEventHistory, useUnreadEventCount } from "@/lib/storage";
 
 interface HeaderProps {
   sidebarCollapsed?: boolean;
@@ -25,6 +26,9 @@ interface HeaderProps {
 export function Header({ sidebarCollapsed = false }: HeaderProps) {
   const { theme, setTheme } = useTheme();
   const [mounted, setMounted] = useState(false);
+  const eventHistory = useEventHistory();
+  const unreadCount = useUnreadEventCount();
+  const recentEvents = eventHistory.slice(-5).reverse();
 
   useEffect(() => {
     setMounted(true);
@@ -103,10 +107,20 @@ export function Header({ sidebarCollapsed = false }: HeaderProps) {
 
         {/* Notifications */}
         <NavbarItem>
-          <Dropdown placement="bottom-end">
+          <Dropdown
+            placement="bottom-end"
+            onOpenChange={(open) => {
+              if (open) useStore.getState().markEventsRead();
+            }}
+          >
             <DropdownTrigger>
               <Button isIconOnly variant="light">
-                <Badge content="3" color="danger" size="sm">
+                <Badge
+                  content={unreadCount > 99 ? "99+" : unreadCount}
+                  color="danger"
+                  size="sm"
+                  isInvisible={unreadCount === 0}
+                >
                   <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                     <path
                       strokeLinecap="round"
@@ -118,16 +132,15 @@ export function Header({ sidebarCollapsed = false }: HeaderProps) {
                 </Badge>
               </Button>
             </DropdownTrigger>
-            <DropdownMenu aria-label="Notifications" className="w-80">
-              <DropdownItem key="1" description="New hiring requisition submitted">
-                Requisition #REQ-001
-              </DropdownItem>
-              <DropdownItem key="2" description="Training completed by John Doe">
-                Course Completion
-              </DropdownItem>
-              <DropdownItem key="3" description="Performance review due in 3 days">
-                Review Reminder
-              </DropdownItem>
+            <DropdownMenu aria-label="Notifications" className="w-80" emptyContent="No notifications">
+              {recentEvents.map((event) => (
+                <DropdownItem
+                  key={event.id}
+                  description={`${event.source} · ${new Date(event.timestamp).toLocaleTimeString()}`}
+                >
+                  {event.type}
+                </DropdownItem>
+              ))}
             </DropdownMenu>
           </Dropdown>
         </NavbarItem>
@@ -0,0 +1,16 @@
+/**
+ * Next.js server startup hook
+ * Starts event-driven workflows and restores queued events and webhooks in the Node.js runtime
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { startWorkflows } = await import("@/lib/workflows");
+    startWorkflows();
+
+    const { getEventQueue } = await import("@/lib/events/queue");
+    await getEventQueue().restore();
+
+    const { getWebhookHandler } = await import("@/lib/events/webhook-handlers");
+    await getWebhookHandler().restore();
+  }
+}
@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest";
+import { Event } from "@/types/events";
+import { CloudEvent, decodeCloudEventHttp, encodeCloudEventHttp, fromCloudEvent, toCloudEvent } from "./cloudevents";
+
+const EVENT: Event = {
+  id: "evt-1",
+  type: "ticket.created",
+  timestamp: "2026-01-01T09:00:00.000Z",
+  source: "ticketing",
+  correlationId: "corr-1",
+  causationId: "cause-1",
+  schemaVersion: 1,
+  metadata: { userId: "emp-1" },
+  payload: { ticketId: "tkt-1", category: "it_support" },
+};
+
+function cloudEvent(overrides: Partial<CloudEvent> = {}): CloudEvent {
+  return {
+    specversion: "1.0",
+    id: "ce-1",
+    source: "https://ticketing.example.test",
+    type: "ticket.created",
+    datacontenttype: "application/json",
+    data: { ticketId: "tkt-1", category: "it_support" },
+    ...overrides,
+  };
+}
+
+describe("fromCloudEvent", () => {
+  it("round-trips an internal event except for its ID", () => {
+    const converted = fromCloudEvent(toCloudEvent(EVENT));
+
+    expect(converted.success).toBe(true);
+    if (!converted.success) return;
+    expect(converted.event).toEqual({ ...EVENT, id: expect.any(String), metadata: expect.any(Object) });
+    expect(converted.event.id).not.toBe(EVENT.id);
+    expect(converted.event.metadata).toEqual({ userId: "emp-1", cloudEventId: "evt-1", cloudEventSource: "ticketing" });
+  });
+
+  it("gives an external CloudEvent its own ID and correlation", () => {
+    const converted = fromCloudEvent(cloudEvent());
+
+    expect(converted.success).toBe(true);
+    if (!converted.success) return;
+    expect(converted.event.id).not.toBe("ce-1");
+    expect(converted.event.correlationId).toBe(converted.event.id);
+    expect(converted.event.causationId).toBeUndefined();
+    expect(converted.event.metadata).toEqual({
+      cloudEventId: "ce-1",
+      cloudEventSource: "https://ticketing.example.test",
+    });
+
+    const other = fromCloudEvent(cloudEvent({ source: "https://lms.example.test" }));
+    expect(other.success && other.event.id).not.toBe(converted.event.id);
+  });
+
+  it("reports unknown types, non-object data and malformed extensions", () => {
+    const converted = fromCloudEvent(
+      cloudEvent({ type: "ticket.archived", data: ["tkt-1"], schemaversion: "0", metadata: "[1]" })
+    );
+
+    expect(converted.success).toBe(false);
+    expect(!converted.success && converted.issues.map((issue) => issue.path)).toEqual([
+      "type",
+      "data",
+      "schemaversion",
+      "metadata",
+    ]);
+  });
+});
+
+describe("CloudEvents HTTP encoding", () => {
+  it("round-trips structured mode", () => {
+    const original = toCloudEvent(EVENT);
+    const { headers, body } = encodeCloudEventHttp(original, "structured");
+
+    expect(headers["Content-Type"]).toBe("application/cloudevents+json; charset=utf-8");
+    expect(decodeCloudEventHttp(new Headers(headers), body)).toEqual({ success: true, cloudEvent: original });
+  });
+
+  it("round-trips binary mode, percent-encoding header values", () => {
+    const original = cloudEvent({
+      subject: 'Café "50%" off',
+      time: "2026-01-01T09:00:00.000Z",
+      traceparent: "00-abc",
+    });
+    const { headers, body } = encodeCloudEventHttp(original, "binary");
+
+    expect(headers["Content-Type"]).toBe("application/json");
+    expect(headers["ce-subject"]).toBe("Caf%C3%A9 %2250%25%22 off");
+    expect(headers["ce-traceparent"]).toBe("00-abc");
+    expect(headers).not.toHaveProperty("ce-data");
+    expect(JSON.parse(body)).toEqual(original.data);
+    expect(decodeCloudEventHttp(new Headers(headers), body)).toEqual({ success: true, cloudEvent: original });
+  });
+
+  it("rejects binary-mode extension names that are not lowercase alphanumeric", () => {
+    const { headers, body } = encodeCloudEventHttp(cloudEvent(), "binary");
+    const decoded = decodeCloudEventHttp(new Headers({ ...headers, "ce-trace_id": "abc" }), body);
+
+    expect(decoded).toEqual({
+      success: false,
+      issues: [{ path: "trace_id", message: "Invalid extension attribute name" }],
+    });
+  });
+
+  it("rejects binary-mode data that is not valid JSON", () => {
+    const { headers } = encodeCloudEventHttp(cloudEvent(), "binary");
+    const decoded = decodeCloudEventHttp(new Headers(headers), "{");
+
+    expect(decoded.success).toBe(false);
+    expect(!decoded.success && decoded.issues[0].path).toBe("data");
+  });
+});
@@ -0,0 +1,263 @@
+import { z } from "zod";
+import { CloudEventsMode, Event, EventType } from "@/types/events";
+import { EventValidationIssue, isEventType } from "./validation";
+
+export const CLOUDEVENTS_SPEC_VERSION = "1.0";
+export const CLOUDEVENTS_CONTENT_TYPE = "application/cloudevents+json";
+
+/**
+ * CloudEvents 1.0 event; unknown attributes are extensions
+ */
+export const CloudEventSchema = z.looseObject({
+  specversion: z.literal(CLOUDEVENTS_SPEC_VERSION),
+  id: z.string().min(1),
+  source: z.string().min(1),
+  type: z.string().min(1),
+  datacontenttype: z.string().optional(),
+  dataschema: z.string().optional(),
+  subject: z.string().optional(),
+  time: z
+    .string()
+    .refine((value) => !isNaN(Date.parse(value)), { message: "Expected an RFC 3339 timestamp" })
+    .optional(),
+  data: z.unknown().optional(),
+});
+export type CloudEvent = z.infer<typeof CloudEventSchema>;
+
+/**
+ * Internal event fields carried as CloudEvents extension attributes (names must be lowercase alphanumeric)
+ */
+const EXTENSIONS = {
+  correlationId: "correlationid",
+  causationId: "causationid",
+  schemaVersion: "schemaversion",
+  metadata: "metadata",
+} as const;
+
+const CONTEXT_ATTRIBUTES = ["specversion", "id", "source", "type", "datacontenttype", "dataschema", "subject", "time"];
+
+export type CloudEventDecodeResult =
+  | { success: true; cloudEvent: CloudEvent }
+  | { success: false; issues: EventValidationIssue[] };
+
+export type CloudEventConversionResult =
+  | { success: true; event: Event }
+  | { success: false; issues: EventValidationIssue[] };
+
+/**
+ * Map an internal event to a CloudEvent
+ * The event source is used as-is (a relative URI-reference) so the mapping round-trips;
+ * data defaults to the event payload
+ */
+export function toCloudEvent(event: Event, data: unknown = event.payload): CloudEvent {
+  const cloudEvent: CloudEvent = {
+    specversion: CLOUDEVENTS_SPEC_VERSION,
+    id: event.id,
+    source: event.source,
+    type: event.type,
+    time: event.timestamp,
+    datacontenttype: "application/json",
+    data,
+  };
+
+  if (event.correlationId) cloudEvent[EXTENSIONS.correlationId] = event.correlationId;
+  if (event.causationId) cloudEvent[EXTENSIONS.causationId] = event.causationId;
+  if (event.schemaVersion) cloudEvent[EXTENSIONS.schemaVersion] = event.schemaVersion;
+  // Extension values must be scalars, so metadata travels as a JSON string
+  if (event.metadata) cloudEvent[EXTENSIONS.metadata] = JSON.stringify(event.metadata);
+
+  return cloudEvent;
+}
+
+/**
+ * Map a CloudEvent to an internal event
+ * The type must be a known event type and data a JSON object; the payload itself is not validated here.
+ * The event gets its own ID, since CloudEvent ids are only unique per source; the CloudEvent id and
+ * source are kept in metadata as cloudEventId and cloudEventSource. Without a correlationid extension
+ * the event starts its own correlation.
+ */
+export function fromCloudEvent(cloudEvent: CloudEvent): CloudEventConversionResult {
+  const issues: EventValidationIssue[] = [];
+
+  if (!isEventType(cloudEvent.type)) {
+    issues.push({ path: "type", message: `Unknown event type: ${cloudEvent.type}` });
+  }
+  const data = cloudEvent.data;
+  if (data === null || typeof data !== "object" || Array.isArray(data)) {
+    issues.push({ path: "data", message: "Expected a JSON object" });
+  }
+
+  const schemaVersion = Number(cloudEvent[EXTENSIONS.schemaVersion] ?? 1);
+  if (!Number.isInteger(schemaVersion) || schemaVersion < 1) {
+    issues.push({ path: EXTENSIONS.schemaVersion, message: "Expected a positive integer" });
+  }
+
+  let metadata: Record<string, unknown> | undefined;
+  const rawMetadata = cloudEvent[EXTENSIONS.metadata];
+  if (rawMetadata !== undefined) {
+    metadata = parseMetadata(String(rawMetadata));
+    if (!metadata) {
+      issues.push({ path: EXTENSIONS.metadata, message: "Expected a JSON object string" });
+    }
+  }
+
+  if (issues.length > 0) {
+    return { success: false, issues };
+  }
+
+  const correlationId = cloudEvent[EXTENSIONS.correlationId];
+  const causationId = cloudEvent[EXTENSIONS.causationId];
+
+  const id = `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+  return {
+    success: true,
+    event: {
+      id,
+      type: cloudEvent.type as EventType,
+      timestamp: cloudEvent.time ? new Date(cloudEvent.time).toISOString() : new Date().toISOString(),
+      source: cloudEvent.source,
+      correlationId: correlationId !== undefined ? String(correlationId) : id,
+      causationId: causationId !== undefined ? String(causationId) : undefined,
+      schemaVersion,
+      metadata: { ...metadata, cloudEventId: cloudEvent.id, cloudEventSource: cloudEvent.source },
+      payload: data as Record<string, unknown>,
+    },
+  };
+}
+
+/**
+ * Encode a CloudEvent as an HTTP request body and headers
+ */
+export function encodeCloudEventHttp(
+  cloudEvent: CloudEvent,
+  mode: CloudEventsMode
+): { headers: Record<string, string>; body: string } {
+  if (mode === "structured") {
+    return {
+      headers: { "Content-Type": `${CLOUDEVENTS_CONTENT_TYPE}; charset=utf-8` },
+      body: JSON.stringify(cloudEvent),
+    };
+  }
+
+  const { data, datacontenttype, ...attributes } = cloudEvent;
+  const headers: Record<string, string> = { "Content-Type": datacontenttype || "application/json" };
+  for (const [name, value] of Object.entries(attributes)) {
+    if (value !== undefined && value !== null) {
+      headers[`ce-${name}`] = encodeHeaderValue(String(value));
+    }
+  }
+
+  return { headers, body: data === undefined ? "" : JSON.stringify(data) };
+}
+
+/**
+ * Check whether an HTTP request carries a CloudEvent, in either mode
+ */
+export function isCloudEventHttp(headers: Headers): boolean {
+  return getMediaType(headers) === CLOUDEVENTS_CONTENT_TYPE || headers.has("ce-specversion");
+}
+
+/**
+ * Decode a CloudEvent from an HTTP request, detecting the mode from its headers
+ * A JSON body with a specversion attribute is accepted as structured mode whatever its content type
+ */
+export function decodeCloudEventHttp(headers: Headers, body: string): CloudEventDecodeResult {
+  if (headers.has("ce-specversion")) {
+    return decodeBinary(headers, body);
+  }
+
+  const mediaType = getMediaType(headers);
+  if (mediaType === "application/cloudevents-batch+json") {
+    return { success: false, issues: [{ path: "", message: "Batched CloudEvents are not supported" }] };
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(body);
+  } catch (error) {
+    return { success: false, issues: [{ path: "", message: error instanceof Error ? error.message : "Invalid JSON" }] };
+  }
+  return parseCloudEvent(json);
+}
+
+/**
+ * Validate a structured-mode CloudEvent
+ */
+export function parseCloudEvent(value: unknown): CloudEventDecodeResult {
+  const result = CloudEventSchema.safeParse(value);
+  if (!result.success) {
+    return {
+      success: false,
+      issues: result.error.issues.map((issue) => ({ path: issue.path.map(String).join("."), message: issue.message })),
+    };
+  }
+  return { success: true, cloudEvent: result.data };
+}
+
+function decodeBinary(headers: Headers, body: string): CloudEventDecodeResult {
+  const attributes: Record<string, unknown> = {};
+  headers.forEach((value, name) => {
+    const lower = name.toLowerCase();
+    if (lower.startsWith("ce-")) {
+      attributes[lower.slice(3)] = decodeHeaderValue(value);
+    }
+  });
+
+  const contentType = headers.get("content-type") || undefined;
+  if (contentType) attributes.datacontenttype = contentType;
+
+  if (body) {
+    const mediaType = getMediaType(headers);
+    if (!mediaType || mediaType === "application/json" || mediaType.endsWith("+json")) {
+      try {
+        attributes.data = JSON.parse(body);
+      } catch (error) {
+        return { success: false, issues: [{ path: "data", message: error instanceof Error ? error.message : "Invalid JSON" }] };
+      }
+    } else {
+      attributes.data = body;
+    }
+  }
+
+  // Extension attributes arrive as strings; the known ones are coerced by fromCloudEvent
+  for (const name of Object.keys(attributes)) {
+    if (!CONTEXT_ATTRIBUTES.includes(name) && name !== "data" && !/^[a-z0-9]+$/.test(name)) {
+      return { success: false, issues: [{ path: name, message: "Invalid extension attribute name" }] };
+    }
+  }
+
+  return parseCloudEvent(attributes);
+}
+
+function parseMetadata(value: string): Record<string, unknown> | undefined {
+  try {
+    const parsed: unknown = JSON.parse(value);
+    return parsed !== null && typeof parsed === "object" && !Array.isArray(parsed)
+      ? (parsed as Record<string, unknown>)
+      : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function getMediaType(headers: Headers): string | undefined {
+  return headers.get("content-type")?.split(";")[0].trim().toLowerCase() || undefined;
+}
+
+/**
+ * Percent-encode a binary-mode header value: anything outside printable ASCII, plus " and %
+ */
+function encodeHeaderValue(value: string): string {
+  return Array.from(value)
+    .map((char) => (/^[\x20-\x7E]$/.test(char) && char !== '"' && char !== "%" ? char : encodeURIComponent(char)))
+    .join("");
+}
+
+function decodeHeaderValue(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
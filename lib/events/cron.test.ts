@@ -0,0 +1,129 @@
+import { describe, expect, it } from "vitest";
+import { getCronRunsBetween, getLatestCronRuns, getNextCronRun, isValidCronExpression, parseCronExpression } from "./cron";
+
+const next = (expression: string, after: string, timeZone?: string) =>
+  getNextCronRun(expression, new Date(after), timeZone)?.toISOString();
+
+describe("parseCronExpression", () => {
+  it("expands lists, ranges, steps and names", () => {
+    const cron = parseCronExpression("*/15 9-17 * JAN,jul MON-FRI");
+    expect([...cron.minutes]).toEqual([0, 15, 30, 45]);
+    expect([...cron.hours]).toEqual([9, 10, 11, 12, 13, 14, 15, 16, 17]);
+    expect([...cron.months]).toEqual([1, 7]);
+    expect([...cron.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it("rejects malformed expressions", () => {
+    expect(isValidCronExpression("* * * *")).toBe(false);
+    expect(isValidCronExpression("60 * * * *")).toBe(false);
+    expect(isValidCronExpression("5-1 * * * *")).toBe(false);
+    expect(isValidCronExpression("@daily")).toBe(true);
+  });
+});
+
+describe("getNextCronRun", () => {
+  it("returns the first run strictly after the given instant", () => {
+    expect(next("0 * * * *", "2026-01-01T10:00:00Z")).toBe("2026-01-01T11:00:00.000Z");
+    expect(next("30 9 * * *", "2026-01-01T08:00:00Z")).toBe("2026-01-01T09:30:00.000Z");
+  });
+
+  it("ORs day of month and day of week when both are restricted", () => {
+    // 2026-01-02 is a Friday
+    expect(next("0 0 15 * 5", "2026-01-01T00:00:00Z")).toBe("2026-01-02T00:00:00.000Z");
+  });
+
+  it("returns null for expressions that never fire", () => {
+    expect(next("0 0 31 2 *", "2026-01-01T00:00:00Z")).toBeUndefined();
+  });
+
+  it("evaluates in the given time zone", () => {
+    expect(next("0 9 * * *", "2026-01-01T00:00:00Z", "America/New_York")).toBe("2026-01-01T14:00:00.000Z");
+  });
+
+  describe("across a spring-forward transition (America/New_York, 2026-03-08)", () => {
+    it("keeps 00:xx runs on the day after the 23-hour day", () => {
+      expect(next("30 0 * * 1", "2026-03-07T12:00:00Z", "America/New_York")).toBe("2026-03-09T04:30:00.000Z");
+    });
+
+    it("keeps midnight runs on both sides of the transition", () => {
+      const runs = getCronRunsBetween(
+        "0 0 * * *",
+        new Date("2026-03-07T00:00:00Z"),
+        new Date("2026-03-10T12:00:00Z"),
+        "America/New_York"
+      );
+      expect(runs.map((run) => run.toISOString())).toEqual([
+        "2026-03-07T05:00:00.000Z",
+        "2026-03-08T05:00:00.000Z",
+        "2026-03-09T04:00:00.000Z",
+        "2026-03-10T04:00:00.000Z",
+      ]);
+    });
+
+    it("skips wall-clock times that do not exist", () => {
+      expect(next("30 2 * * *", "2026-03-08T05:00:00Z", "America/New_York")).toBe("2026-03-09T06:30:00.000Z");
+    });
+  });
+
+  describe("across a fall-back transition (America/New_York, 2026-11-01)", () => {
+    it("keeps midnight runs around the 25-hour day", () => {
+      const runs = getCronRunsBetween(
+        "0 0 * * *",
+        new Date("2026-10-31T00:00:00Z"),
+        new Date("2026-11-03T12:00:00Z"),
+        "America/New_York"
+      );
+      expect(runs.map((run) => run.toISOString())).toEqual([
+        "2026-10-31T04:00:00.000Z",
+        "2026-11-01T04:00:00.000Z",
+        "2026-11-02T05:00:00.000Z",
+        "2026-11-03T05:00:00.000Z",
+      ]);
+    });
+
+    it("runs repeated wall-clock times once", () => {
+      const runs = getCronRunsBetween(
+        "30 1 * * *",
+        new Date("2026-11-01T04:00:00Z"),
+        new Date("2026-11-02T12:00:00Z"),
+        "America/New_York"
+      );
+      expect(runs.map((run) => run.toISOString())).toEqual(["2026-11-01T05:30:00.000Z", "2026-11-02T06:30:00.000Z"]);
+    });
+
+    it("still runs every hour through the repeated hour for hourly schedules", () => {
+      const runs = getCronRunsBetween(
+        "0 * * * *",
+        new Date("2026-11-01T04:30:00Z"),
+        new Date("2026-11-01T07:30:00Z"),
+        "America/New_York"
+      );
+      expect(runs.map((run) => run.toISOString())).toEqual([
+        "2026-11-01T05:00:00.000Z",
+        "2026-11-01T06:00:00.000Z",
+        "2026-11-01T07:00:00.000Z",
+      ]);
+    });
+  });
+});
+
+describe("getLatestCronRuns", () => {
+  it("returns the last runs of a long gap, oldest first", () => {
+    const runs = getLatestCronRuns("*/5 * * * *", new Date("2024-01-01T00:00:00Z"), new Date("2026-01-01T00:12:00Z"), "UTC", 3);
+    expect(runs.map((run) => run.toISOString())).toEqual([
+      "2026-01-01T00:00:00.000Z",
+      "2026-01-01T00:05:00.000Z",
+      "2026-01-01T00:10:00.000Z",
+    ]);
+  });
+
+  it("finds a run far before the end of the range", () => {
+    const runs = getLatestCronRuns("0 0 1 1 *", new Date("2020-06-01T00:00:00Z"), new Date("2026-06-01T00:00:00Z"));
+    expect(runs.map((run) => run.toISOString())).toEqual(["2026-01-01T00:00:00.000Z"]);
+  });
+
+  it("stops at the start of the range when it holds fewer runs", () => {
+    const runs = getLatestCronRuns("0 * * * *", new Date("2026-01-01T10:30:00Z"), new Date("2026-01-01T12:30:00Z"), "UTC", 5);
+    expect(runs.map((run) => run.toISOString())).toEqual(["2026-01-01T11:00:00.000Z", "2026-01-01T12:00:00.000Z"]);
+  });
+});
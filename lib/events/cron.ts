@@ -0,0 +1,285 @@
+/**
+ * Parsed five-field cron expression (minute hour day-of-month month day-of-week)
+ */
+export interface CronExpression {
+  source: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  // Standard cron: when both day fields are restricted, either one matching is enough
+  daysOfMonthRestricted: boolean;
+  daysOfWeekRestricted: boolean;
+}
+
+const MACROS: Record<string, string> = {
+  "@yearly": "0 0 1 1 *",
+  "@annually": "0 0 1 1 *",
+  "@monthly": "0 0 1 * *",
+  "@weekly": "0 0 * * 0",
+  "@daily": "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@hourly": "0 * * * *",
+};
+
+const MONTH_NAMES = ["JAN", "FEB", "MAR", "APR", "MAY", "JUN", "JUL", "AUG", "SEP", "OCT", "NOV", "DEC"];
+const DAY_NAMES = ["SUN", "MON", "TUE", "WED", "THU", "FRI", "SAT"];
+
+const FIELDS = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12, names: MONTH_NAMES, nameOffset: 1 },
+  { name: "day of week", min: 0, max: 7, names: DAY_NAMES, nameOffset: 0 },
+];
+
+// Upper bound on search steps; an expression with no match in this window never fires (e.g. "0 0 31 2 *")
+const MAX_SEARCH_STEPS = 50000;
+
+/**
+ * Parse a five-field cron expression or macro such as "@daily"
+ * Supports *, lists, ranges, steps and month/day names; throws on invalid input
+ */
+export function parseCronExpression(expression: string): CronExpression {
+  const normalized = MACROS[expression.trim().toLowerCase()] || expression.trim();
+  const parts = normalized.split(/\s+/);
+  if (parts.length !== 5) {
+    throw new Error(`Invalid cron expression "${expression}": expected 5 fields, got ${parts.length}`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, index) =>
+    parseField(part, FIELDS[index], expression)
+  );
+
+  // 7 is an alias for Sunday
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+
+  return {
+    source: expression,
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    daysOfMonthRestricted: !parts[2].startsWith("*"),
+    daysOfWeekRestricted: !parts[4].startsWith("*"),
+  };
+}
+
+/**
+ * Check whether a cron expression parses
+ */
+export function isValidCronExpression(expression: string): boolean {
+  try {
+    parseCronExpression(expression);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check whether a string is an IANA time zone known to the runtime
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Get the first run strictly after the given instant, evaluated in a time zone
+ * Across DST changes, wall-clock times skipped when clocks go forward do not run, and fixed-hour
+ * times repeated when they go back run once. Returns null if the expression has no run in the search window
+ */
+export function getNextCronRun(
+  expression: string | CronExpression,
+  after: Date,
+  timeZone: string = "UTC"
+): Date | null {
+  const cron = typeof expression === "string" ? parseCronExpression(expression) : expression;
+  let time = Math.floor(after.getTime() / 60000) * 60000 + 60000;
+
+  for (let step = 0; step < MAX_SEARCH_STEPS; step++) {
+    const local = getZonedParts(new Date(time), timeZone);
+
+    if (!cron.months.has(local.month) || !matchesDay(cron, local)) {
+      // Head for the next local midnight by wall-clock minutes, stopping an hour short: a DST change
+      // shifts midnight by up to an hour, and overshooting it would skip that day's 00:xx runs
+      const untilMidnight = 24 * 60 - (local.hour * 60 + local.minute);
+      time += (untilMidnight > 60 ? untilMidnight - 60 : untilMidnight) * 60000;
+    } else if (!cron.hours.has(local.hour)) {
+      time += (60 - local.minute) * 60000;
+    } else if (!cron.minutes.has(local.minute)) {
+      time += 60000;
+    } else if (cron.hours.size < 24 && isRepeatedWallTime(time, local, timeZone)) {
+      // Fixed-hour times repeated when clocks go back run once, at their first occurrence;
+      // schedules that run every hour keep running through the repeated hour
+      time += 60000;
+    } else {
+      return new Date(time);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Get all runs after `after` up to and including `until`, capped at `limit`
+ */
+export function getCronRunsBetween(
+  expression: string | CronExpression,
+  after: Date,
+  until: Date,
+  timeZone: string = "UTC",
+  limit: number = 100
+): Date[] {
+  const cron = typeof expression === "string" ? parseCronExpression(expression) : expression;
+  const runs: Date[] = [];
+  let next = getNextCronRun(cron, after, timeZone);
+
+  while (next && next <= until && runs.length < limit) {
+    runs.push(next);
+    next = getNextCronRun(cron, next, timeZone);
+  }
+
+  return runs;
+}
+
+/**
+ * Get the last `count` runs after `after` up to and including `until`, oldest first
+ * Searches backwards from `until` in doubling windows, so a long gap is not walked run by run
+ */
+export function getLatestCronRuns(
+  expression: string | CronExpression,
+  after: Date,
+  until: Date,
+  timeZone: string = "UTC",
+  count: number = 1
+): Date[] {
+  const cron = typeof expression === "string" ? parseCronExpression(expression) : expression;
+  // Runs are at least a minute apart, so the first window can hold no more than `count` runs
+  let span = Math.max(count, 1) * 60000;
+
+  for (;;) {
+    const windowStart = Math.max(until.getTime() - span, after.getTime());
+    const runs = getCronRunsBetween(cron, new Date(windowStart), until, timeZone, Infinity);
+
+    if (runs.length >= count || windowStart === after.getTime()) {
+      return runs.slice(-count);
+    }
+    span *= 2;
+  }
+}
+
+/**
+ * Check whether the same wall-clock minute already occurred an hour earlier (clocks went back)
+ */
+function isRepeatedWallTime(time: number, local: ZonedParts, timeZone: string): boolean {
+  const hourEarlier = getZonedParts(new Date(time - 3600000), timeZone);
+  return hourEarlier.day === local.day && hourEarlier.hour === local.hour && hourEarlier.minute === local.minute;
+}
+
+function matchesDay(cron: CronExpression, local: ZonedParts): boolean {
+  const domMatch = cron.daysOfMonth.has(local.day);
+  const dowMatch = cron.daysOfWeek.has(local.weekday);
+
+  if (cron.daysOfMonthRestricted && cron.daysOfWeekRestricted) {
+    return domMatch || dowMatch;
+  }
+  return domMatch && dowMatch;
+}
+
+function parseField(
+  field: string,
+  spec: (typeof FIELDS)[number],
+  expression: string
+): Set<number> {
+  const values = new Set<number>();
+  const fail = (reason: string): never => {
+    throw new Error(`Invalid cron expression "${expression}": ${spec.name} ${reason}`);
+  };
+
+  const toNumber = (token: string): number => {
+    const nameIndex = spec.names?.indexOf(token.toUpperCase()) ?? -1;
+    if (nameIndex !== -1) return nameIndex + (spec.nameOffset ?? 0);
+    if (!/^\d+$/.test(token)) fail(`has invalid value "${token}"`);
+    const value = parseInt(token, 10);
+    if (value < spec.min || value > spec.max) fail(`value ${value} is out of range ${spec.min}-${spec.max}`);
+    return value;
+  };
+
+  for (const item of field.split(",")) {
+    const [range, stepToken] = item.split("/");
+    const step = stepToken === undefined ? 1 : parseInt(stepToken, 10);
+    if (stepToken !== undefined && (!/^\d+$/.test(stepToken) || step < 1)) fail(`has invalid step "${stepToken}"`);
+
+    let start: number;
+    let end: number;
+    if (range === "*") {
+      start = spec.min;
+      end = spec.name === "day of week" ? 6 : spec.max;
+    } else if (range.includes("-")) {
+      const [from, to] = range.split("-");
+      start = toNumber(from);
+      end = toNumber(to);
+      if (start > end) fail(`range ${range} is reversed`);
+    } else {
+      start = toNumber(range);
+      // "5/15" means every 15 starting at 5
+      end = stepToken === undefined ? start : spec.max;
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+interface ZonedParts {
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  weekday: number;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Get wall-clock date parts for an instant in a time zone
+ */
+function getZonedParts(date: Date, timeZone: string): ZonedParts {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      weekday: "short",
+    });
+    formatters.set(timeZone, formatter);
+  }
+
+  const parts: Record<string, string> = {};
+  for (const part of formatter.formatToParts(date)) {
+    parts[part.type] = part.value;
+  }
+
+  return {
+    month: parseInt(parts.month, 10),
+    day: parseInt(parts.day, 10),
+    hour: parseInt(parts.hour, 10),
+    minute: parseInt(parts.minute, 10),
+    weekday: DAY_NAMES.indexOf(parts.weekday.toUpperCase()),
+  };
+}
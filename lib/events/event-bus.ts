@@ -1,50 +1,208 @@
-import { Event, EventType, EventSubscription, IEventBus, EventHandler } from "@/types/events";
+import { AsyncLocalStorage } from "async_hooks";
+import {
+  Event,
+  EventType,
+  EventPattern,
+  EventPayload,
+  EventOf,
+  EventSubscription,
+  EventTypesMatching,
+  EventFilterOptions,
+  EventHistoryEntry,
+  EventHistoryFilterOptions,
+  EventStoreQuery,
+  EventTraceNode,
+  HandlerResult,
+  IEventBus,
+  IEventStore,
+  IProcessedKeyLedger,
+  EventHandler,
+  EventHandlerContext,
+  EventMiddleware,
+  EventMiddlewareContext,
+  EventPublishOptions,
+  StoredEvent,
+  TypedEventHandler,
+} from "@/types/events";
+import { createEventStore, InMemoryEventStore } from "./event-store";
+import { getProcessedKeyLedger, InMemoryProcessedKeyLedger } from "./idempotency";
+import { assertValidEventPatterns, matchesAnyEventPattern } from "./patterns";
+import { getUpcasterRegistry, UpcasterRegistry } from "./upcasters";
+import { assertValidEvent } from "./validation";
+
+/**
+ * Replay start position for a new subscriber
+ */
+export type ReplayPosition = Pick<EventStoreQuery, "fromOffset" | "fromTimestamp">;
+
+/**
+ * Explicit tracing identifiers for a new event
+ */
+export interface EventTracingOptions {
+  correlationId?: string;
+  causationId?: string;
+}
+
+/**
+ * Error raised by publish when handlers fail and the publisher asked to be told
+ * Carries the per-handler results so the caller can redeliver to the failed subscriptions only
+ */
+export class EventDispatchError extends Error {
+  constructor(
+    public readonly event: Event,
+    public readonly offset: number,
+    public readonly results: HandlerResult[]
+  ) {
+    const failures = results.filter((r) => !r.success);
+    super(
+      `${failures.length} handler(s) failed for ${event.type}: ${failures
+        .map((r) => `${r.subscriptionId}: ${r.error}`)
+        .join("; ")}`
+    );
+    this.name = "EventDispatchError";
+    // Surface the first handler's stack rather than the dispatcher's
+    this.stack = failures.find((r) => r.errorStack)?.errorStack || this.stack;
+  }
+
+  get failedSubscriptionIds(): string[] {
+    return this.results.filter((r) => !r.success).map((r) => r.subscriptionId);
+  }
+}
 
 /**
  * In-memory event bus implementation
  * Provides pub/sub functionality for inter-service communication
+ * Published events are appended to a pluggable event store
  */
 export class EventBus implements IEventBus {
   private subscriptions: Map<string, EventSubscription> = new Map();
-  private eventHistory: Event[] = [];
-  private maxHistorySize: number = 1000;
+  private processingHistory: EventHistoryEntry[] = [];
+  private maxProcessingHistorySize: number = 1000;
+  // Event currently being handled, used to link follow-up events to their cause
+  private handlingContext = new AsyncLocalStorage<Event>();
+  private middleware: { id: string; name: string; fn: EventMiddleware }[] = [];
+
+  constructor(
+    private store: IEventStore = new InMemoryEventStore(),
+    private upcasters: UpcasterRegistry = getUpcasterRegistry(),
+    private ledger: IProcessedKeyLedger = new InMemoryProcessedKeyLedger()
+  ) {}
 
   /**
    * Publish an event to all subscribers
+   * Throws EventValidationError if the payload does not match its event type schema, either as
+   * published or as left by the middleware
+   * Handler failures are recorded in the processing history; with throwOnFailure they also
+   * reject with an EventDispatchError
    */
-  async publish(event: Event): Promise<void> {
-    // Store in history
-    this.eventHistory.push(event);
-    if (this.eventHistory.length > this.maxHistorySize) {
-      this.eventHistory.shift();
+  async publish(event: Event, options: EventPublishOptions = {}): Promise<void> {
+    // Events re-published from older producers or the queue are brought to the current schema first
+    event = this.upcasters.upcast(event);
+    assertValidEvent(event);
+
+    const context: EventMiddlewareContext = {
+      event: this.applyTracing(event),
+      options: { origin: "direct", ...options },
+      results: [],
+      state: {},
+      vetoed: false,
+      veto: (reason: string) => {
+        context.vetoed = true;
+        context.vetoReason = reason;
+      },
+    };
+
+    await this.runMiddleware(context, 0);
+
+    if (context.vetoed) {
+      this.recordProcessing(context.event, [], 0, `Vetoed: ${context.vetoReason}`);
+      return;
     }
 
-    // Find matching subscriptions
-    const matchingSubscriptions = Array.from(this.subscriptions.values()).filter(
-      (sub) => this.matchesEventType(event.type, sub.eventType) && this.passesFilter(event, sub.filter)
-    );
+    if (context.options.throwOnFailure && context.results.some((r) => !r.success)) {
+      throw new EventDispatchError(context.event, context.offset ?? -1, context.results);
+    }
+  }
 
-    // Execute handlers
-    const promises = matchingSubscriptions.map(async (sub) => {
-      try {
-        await sub.handler(event);
-      } catch (error) {
-        console.error(`Error in event handler for ${event.type}:`, error);
-      }
-    });
+  /**
+   * Register middleware; runs in registration order around every publish
+   */
+  use(middleware: EventMiddleware, name?: string): string {
+    const id = this.generateId();
+    this.middleware.push({ id, name: name || middleware.name || id, fn: middleware });
+    return id;
+  }
 
-    await Promise.all(promises);
+  /**
+   * Remove registered middleware
+   */
+  removeMiddleware(middlewareId: string): void {
+    this.middleware = this.middleware.filter((m) => m.id !== middlewareId);
   }
 
   /**
-   * Subscribe to events
+   * Get registered middleware names, in execution order
+   */
+  getMiddleware(): string[] {
+    return this.middleware.map((m) => m.name);
+  }
+
+  /**
+   * Subscribe to events matching an event type or wildcard pattern
    */
   subscribe(subscription: EventSubscription): string {
+    assertValidEventPatterns(subscription.eventType);
+    this.assertStableIdIfIdempotent(subscription);
     const id = subscription.id || this.generateId();
     this.subscriptions.set(id, { ...subscription, id });
     return id;
   }
 
+  /**
+   * Subscribe and first replay stored events from an offset or timestamp
+   * Live events published during the replay are buffered and delivered afterwards, in order
+   */
+  async subscribeWithReplay(subscription: EventSubscription, from: ReplayPosition): Promise<string> {
+    assertValidEventPatterns(subscription.eventType);
+    this.assertStableIdIfIdempotent(subscription);
+    const id = subscription.id || this.generateId();
+    const live: EventSubscription = { ...subscription, id };
+    const replayedIds = new Set<string>();
+    const buffered: StoredEvent[] = [];
+
+    // Subscribe before reading so nothing published during the replay is missed
+    this.subscriptions.set(id, {
+      ...subscription,
+      id,
+      handler: async (event, context) => {
+        buffered.push({ event, offset: context.offset });
+      },
+    });
+
+    const stored = await this.readFromStore(from);
+    for (const { event, offset } of stored) {
+      if (!this.matchesEventType(event.type, subscription.eventType) || !this.passesFilter(event, subscription.filter)) {
+        continue;
+      }
+      replayedIds.add(event.id);
+      await this.invokeHandler(live, event, { offset, replayed: true, idempotencyKey: event.id });
+    }
+
+    while (buffered.length > 0) {
+      const { event, offset } = buffered.shift()!;
+      if (!replayedIds.has(event.id)) {
+        await this.invokeHandler(live, event, { offset, idempotencyKey: event.id });
+      }
+    }
+
+    // Switch to live delivery unless unsubscribed during the replay
+    if (this.subscriptions.has(id)) {
+      this.subscriptions.set(id, live);
+    }
+
+    return id;
+  }
+
   /**
    * Unsubscribe from events
    */
@@ -62,59 +220,136 @@ export class EventBus implements IEventBus {
   /**
    * Get event history
    */
-  getHistory(filter?: { eventType?: EventType; limit?: number }): Event[] {
-    let events = this.eventHistory;
+  async getHistory(filter?: EventFilterOptions & { eventType?: EventType; limit?: number }): Promise<Event[]> {
+    const stored = await this.readStored(filter);
+    return stored.map((s) => s.event);
+  }
+
+  /**
+   * Read stored events with their offsets
+   */
+  async readStored(query?: EventStoreQuery & { eventType?: EventType }): Promise<StoredEvent[]> {
+    const { eventType, ...rest } = query || {};
+    return this.readFromStore({
+      ...rest,
+      eventTypes: eventType ? [eventType] : rest.eventTypes,
+    });
+  }
+
+  /**
+   * Get per-handler processing outcomes, most recent last
+   */
+  getProcessingHistory(filter?: EventHistoryFilterOptions): EventHistoryEntry[] {
+    let entries = this.processingHistory;
 
-    if (filter?.eventType) {
-      events = events.filter((e) => e.type === filter.eventType);
+    if (filter) {
+      entries = entries.filter((entry) => {
+        const { event } = entry;
+        if (filter.eventId && event.id !== filter.eventId) return false;
+        if (filter.eventTypes && filter.eventTypes.length > 0 && !filter.eventTypes.includes(event.type)) return false;
+        if (filter.source && event.source !== filter.source) return false;
+        if (filter.correlationId && event.correlationId !== filter.correlationId) return false;
+        if (filter.startDate && new Date(entry.processedAt) < filter.startDate) return false;
+        if (filter.endDate && new Date(entry.processedAt) > filter.endDate) return false;
+        if (filter.success !== undefined && entry.success !== filter.success) return false;
+        if (filter.subscriptionId && !entry.processedBy.includes(filter.subscriptionId)) return false;
+        return true;
+      });
     }
 
     if (filter?.limit) {
-      events = events.slice(-filter.limit);
+      entries = entries.slice(-filter.limit);
     }
 
-    return events;
+    return entries;
+  }
+
+  /**
+   * Get the causal tree of all events sharing a correlation ID
+   * Roots are events without a cause in the same chain; children are ordered by offset
+   */
+  async getTrace(correlationId: string): Promise<EventTraceNode[]> {
+    const stored = await this.readFromStore({ correlationId });
+    const nodes = new Map<string, EventTraceNode>();
+    for (const { offset, event } of stored) {
+      nodes.set(event.id, { offset, event, children: [] });
+    }
+
+    const roots: EventTraceNode[] = [];
+    for (const node of nodes.values()) {
+      const parent = node.event.causationId ? nodes.get(node.event.causationId) : undefined;
+      if (parent) {
+        parent.children.push(node);
+      } else {
+        roots.push(node);
+      }
+    }
+
+    return roots;
+  }
+
+  /**
+   * Get the offset of the most recently stored event (-1 when empty)
+   */
+  async getLatestOffset(): Promise<number> {
+    return this.store.getLatestOffset();
   }
 
   /**
    * Clear event history
    */
-  clearHistory(): void {
-    this.eventHistory = [];
+  async clearHistory(): Promise<void> {
+    await this.store.clear();
+    this.processingHistory = [];
   }
 
   /**
    * Create a typed event
    */
-  createEvent(type: EventType, payload: Record<string, unknown>, source: string): Event {
-    return {
+  createEvent<T extends EventType>(
+    type: T,
+    payload: EventPayload<T>,
+    source: string,
+    tracing?: EventTracingOptions
+  ): EventOf<T> {
+    return this.applyTracing({
       id: this.generateId(),
       type,
       payload,
       source,
       timestamp: new Date().toISOString(),
-    };
+      schemaVersion: this.upcasters.getCurrentVersion(type),
+      correlationId: tracing?.correlationId,
+      causationId: tracing?.causationId,
+    });
   }
 
   /**
-   * Subscribe to a specific event type with a handler
+   * Subscribe to an event type or pattern with a handler
+   * Pass a stable id with idempotent: true to skip events the handler already processed
    */
-  on(eventType: EventType | EventType[], handler: EventHandler): string {
+  on<P extends EventPattern>(
+    eventType: P | P[],
+    handler: TypedEventHandler<EventTypesMatching<P>>,
+    options?: Pick<EventSubscription, "idempotent"> & { id?: string }
+  ): string {
+    // subscribe() generates an ID when none is given, and rejects idempotent subscriptions without one
     return this.subscribe({
-      id: this.generateId(),
+      id: options?.id || "",
       eventType,
-      handler,
+      handler: handler as EventHandler,
+      idempotent: options?.idempotent,
     });
   }
 
   /**
-   * Subscribe to an event type once (auto-unsubscribe after first event)
+   * Subscribe to an event type or pattern once (auto-unsubscribe after first event)
    */
-  once(eventType: EventType, handler: EventHandler): string {
+  once<P extends EventPattern>(eventType: P | P[], handler: TypedEventHandler<EventTypesMatching<P>>): string {
     const id = this.generateId();
-    const wrappedHandler: EventHandler = async (event) => {
+    const wrappedHandler: EventHandler = async (event, context) => {
       this.unsubscribe(id);
-      await handler(event);
+      await handler(event as EventOf<EventTypesMatching<P>>, context);
     };
 
     return this.subscribe({
@@ -127,16 +362,194 @@ export class EventBus implements IEventBus {
   /**
    * Emit an event (alias for publish with automatic event creation)
    */
-  async emit(type: EventType, payload: Record<string, unknown>, source: string = "system"): Promise<void> {
-    const event = this.createEvent(type, payload, source);
+  async emit<T extends EventType>(
+    type: T,
+    payload: EventPayload<T>,
+    source: string = "system",
+    tracing?: EventTracingOptions
+  ): Promise<void> {
+    const event = this.createEvent(type, payload, source, tracing);
     await this.publish(event);
   }
 
-  private matchesEventType(eventType: EventType, subscriptionType: EventType | EventType[]): boolean {
-    if (Array.isArray(subscriptionType)) {
-      return subscriptionType.includes(eventType);
+  private matchesEventType(eventType: EventType, subscriptionType: EventPattern | EventPattern[]): boolean {
+    return matchesAnyEventPattern(eventType, subscriptionType);
+  }
+
+  /**
+   * Read stored events upcast to the current schema version
+   */
+  private async readFromStore(query?: EventStoreQuery): Promise<StoredEvent[]> {
+    const stored = await this.store.read(query);
+    return stored.map((s) => ({ ...s, event: this.upcasters.upcast(s.event) }));
+  }
+
+  /**
+   * Run middleware from the given index; the innermost step stores and dispatches the event
+   */
+  private async runMiddleware(context: EventMiddlewareContext, index: number): Promise<void> {
+    if (context.vetoed) return;
+
+    const entry = this.middleware[index];
+    if (!entry) {
+      // Middleware may have replaced or edited the event, so check it again before it is stored
+      if (index > 0) assertValidEvent(context.event);
+      await this.dispatch(context);
+      return;
+    }
+
+    let nextCalled = false;
+    await entry.fn(context, async () => {
+      if (nextCalled) throw new Error(`Middleware ${entry.name} called next() more than once`);
+      nextCalled = true;
+      await this.runMiddleware(context, index + 1);
+    });
+  }
+
+  /**
+   * Append the event to the store and run all matching handlers
+   * A redelivery reuses the stored offset and only runs the requested subscriptions
+   */
+  private async dispatch(context: EventMiddlewareContext): Promise<void> {
+    const { event, options } = context;
+    const { redelivery } = options;
+
+    // Append to the event store
+    const offset = redelivery ? redelivery.offset : (await this.store.append(event)).offset;
+    context.offset = offset;
+
+    // Find matching subscriptions
+    const matchingSubscriptions = Array.from(this.subscriptions.values()).filter(
+      (sub) =>
+        this.matchesEventType(event.type, sub.eventType) &&
+        this.passesFilter(event, sub.filter) &&
+        (!redelivery?.subscriptionIds || redelivery.subscriptionIds.includes(sub.id))
+    );
+
+    options.onDispatch?.({ offset, subscriptionIds: matchingSubscriptions.map((sub) => sub.id) });
+
+    // Execute handlers
+    const startedAt = Date.now();
+    const idempotencyKey = options.idempotencyKey || event.id;
+    const promises = matchingSubscriptions.map(async (sub) => {
+      const result = await this.invokeHandler(sub, event, { offset, attempt: options.attempt, idempotencyKey });
+      options.onHandled?.(result);
+      return result;
+    });
+
+    context.results = await Promise.all(promises);
+    this.recordProcessing(event, context.results, Date.now() - startedAt);
+  }
+
+  /**
+   * Run a handler and report its outcome
+   * A handler acks by resolving, and nacks by throwing or calling context.nack()
+   * Idempotent subscriptions skip keys already in the ledger and record keys they ack
+   */
+  private async invokeHandler(
+    subscription: EventSubscription,
+    event: Event,
+    context: Omit<EventHandlerContext, "nack">
+  ): Promise<HandlerResult> {
+    const startedAt = Date.now();
+
+    if (subscription.idempotent && (await this.ledger.has(context.idempotencyKey, subscription.id))) {
+      return { subscriptionId: subscription.id, success: true, durationMs: 0, skipped: true };
+    }
+
+    let nackReason: string | Error | undefined;
+    const handlerContext: EventHandlerContext = {
+      ...context,
+      nack: (reason) => {
+        nackReason = reason;
+      },
+    };
+
+    try {
+      await this.handlingContext.run(event, () => subscription.handler(event, handlerContext));
+      if (nackReason === undefined) {
+        if (subscription.idempotent) {
+          await this.recordProcessedKey(context.idempotencyKey, subscription.id);
+        }
+        return { subscriptionId: subscription.id, success: true, durationMs: Date.now() - startedAt };
+      }
+      return {
+        subscriptionId: subscription.id,
+        success: false,
+        durationMs: Date.now() - startedAt,
+        nacked: true,
+        ...this.describeError(nackReason),
+      };
+    } catch (error) {
+      console.error(`Error in event handler ${subscription.id} for ${event.type}:`, error);
+      return {
+        subscriptionId: subscription.id,
+        success: false,
+        durationMs: Date.now() - startedAt,
+        ...this.describeError(error),
+      };
+    }
+  }
+
+  /**
+   * A ledger write failure is logged rather than failing a handler that already succeeded
+   */
+  private async recordProcessedKey(key: string, subscriptionId: string): Promise<void> {
+    try {
+      await this.ledger.record(key, subscriptionId);
+    } catch (error) {
+      console.error(`Failed to record processed key ${key} for ${subscriptionId}:`, error);
+    }
+  }
+
+  /**
+   * Ledger entries are keyed by subscription ID, so a generated one would not survive a restart
+   */
+  private assertStableIdIfIdempotent(subscription: EventSubscription): void {
+    if (subscription.idempotent && !subscription.id) {
+      throw new Error("Idempotent subscriptions require a stable id");
+    }
+  }
+
+  private describeError(error: unknown): Pick<HandlerResult, "error" | "errorStack"> {
+    if (error instanceof Error) {
+      return { error: error.message, errorStack: error.stack };
+    }
+    return { error: String(error) };
+  }
+
+  /**
+   * Fill in correlation and causation IDs from the event being handled, if any
+   * An event that starts a new chain is its own correlation root
+   */
+  private applyTracing<E extends Event>(event: E): E {
+    const cause = this.handlingContext.getStore();
+    const isUnlinked = !event.causationId && (!event.correlationId || event.correlationId === event.id);
+
+    if (cause && cause.id !== event.id && isUnlinked) {
+      return { ...event, correlationId: cause.correlationId || cause.id, causationId: cause.id };
+    }
+    if (!event.correlationId) {
+      return { ...event, correlationId: event.id };
+    }
+    return event;
+  }
+
+  private recordProcessing(event: Event, results: HandlerResult[], durationMs: number, error?: string): void {
+    const failures = results.filter((r) => !r.success);
+    this.processingHistory.push({
+      id: this.generateId(),
+      event,
+      processedBy: results.map((r) => r.subscriptionId),
+      processedAt: new Date().toISOString(),
+      success: !error && failures.length === 0,
+      error: error || (failures.length > 0 ? failures.map((r) => `${r.subscriptionId}: ${r.error}`).join("; ") : undefined),
+      handlerResults: results,
+      durationMs,
+    });
+    if (this.processingHistory.length > this.maxProcessingHistorySize) {
+      this.processingHistory.shift();
     }
-    return eventType === subscriptionType;
   }
 
   private passesFilter(event: Event, filter?: (event: Event) => boolean): boolean {
@@ -154,7 +567,7 @@ let eventBusInstance: EventBus | null = null;
 
 export function getEventBus(): EventBus {
   if (!eventBusInstance) {
-    eventBusInstance = new EventBus();
+    eventBusInstance = new EventBus(createEventStore(), getUpcasterRegistry(), getProcessedKeyLedger());
   }
   return eventBusInstance;
 }
@@ -168,48 +581,48 @@ export const eventHelpers = {
    * Create a ticket created event
    */
   ticketCreated: (ticketId: string, category: string, relatedEntityId?: string) => ({
-    type: "ticket.created" as EventType,
-    payload: { ticketId, category, relatedEntityId },
+    type: "ticket.created" as const,
+    payload: { ticketId, category, relatedEntityId } satisfies EventPayload<"ticket.created">,
   }),
 
   /**
    * Create a ticket closed event
    */
   ticketClosed: (ticketId: string, relatedEntityId?: string) => ({
-    type: "ticket.closed" as EventType,
-    payload: { ticketId, relatedEntityId },
+    type: "ticket.closed" as const,
+    payload: { ticketId, relatedEntityId } satisfies EventPayload<"ticket.closed">,
   }),
 
   /**
    * Create a course completed event
    */
   courseCompleted: (enrollmentId: string, employeeId: string, courseId: string, score?: number) => ({
-    type: "lms.course.completed" as EventType,
-    payload: { enrollmentId, employeeId, courseId, score },
+    type: "lms.course.completed" as const,
+    payload: { enrollmentId, employeeId, courseId, score } satisfies EventPayload<"lms.course.completed">,
   }),
 
   /**
    * Create a skill gap identified event
    */
   skillGapIdentified: (employeeId: string, skillGapId: string, skillName: string) => ({
-    type: "performance.skill_gap.identified" as EventType,
-    payload: { employeeId, skillGapId, skillName },
+    type: "performance.skill_gap.identified" as const,
+    payload: { employeeId, skillGapId, skillName } satisfies EventPayload<"performance.skill_gap.identified">,
   }),
 
   /**
    * Create a requisition created event
    */
   requisitionCreated: (requisitionId: string, department: string, requestedBy: string) => ({
-    type: "h2r.requisition.created" as EventType,
-    payload: { requisitionId, department, requestedBy },
+    type: "h2r.requisition.created" as const,
+    payload: { requisitionId, department, requestedBy } satisfies EventPayload<"h2r.requisition.created">,
   }),
 
   /**
    * Create an assessment created event
    */
   assessmentCreated: (assessmentId: string, employeeId: string, score: number) => ({
-    type: "performance.assessment.created" as EventType,
-    payload: { assessmentId, employeeId, score },
+    type: "performance.assessment.created" as const,
+    payload: { assessmentId, employeeId, score } satisfies EventPayload<"performance.assessment.created">,
   }),
 };
 
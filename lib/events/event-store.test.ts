@@ -0,0 +1,56 @@
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { Event } from "@/types/events";
+import { FileEventStore } from "./event-store";
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), "event-store-"));
+});
+
+afterEach(async () => {
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+function createEvent(id: string): Event {
+  return {
+    id,
+    type: "ticket.created",
+    timestamp: new Date().toISOString(),
+    source: "test",
+    correlationId: id,
+    payload: { ticketId: id, category: "support" },
+  } as Event;
+}
+
+describe("FileEventStore", () => {
+  it("restores events and offsets after a restart", async () => {
+    const filePath = path.join(dir, "events.jsonl");
+    const store = new FileEventStore(filePath);
+    await store.append(createEvent("evt-1"));
+    await store.append(createEvent("evt-2"));
+
+    const restored = new FileEventStore(filePath);
+    expect((await restored.read()).map((stored) => stored.offset)).toEqual([0, 1]);
+    expect((await restored.append(createEvent("evt-3"))).offset).toBe(2);
+  });
+
+  it("does not reuse offsets after the log is cleared and reloaded", async () => {
+    const filePath = path.join(dir, "events.jsonl");
+    const store = new FileEventStore(filePath);
+    await store.append(createEvent("evt-1"));
+    await store.append(createEvent("evt-2"));
+    await store.clear();
+
+    const restored = new FileEventStore(filePath);
+    expect(await restored.read()).toEqual([]);
+    expect(await restored.getLatestOffset()).toBe(1);
+    expect((await restored.append(createEvent("evt-3"))).offset).toBe(2);
+
+    const reloaded = new FileEventStore(filePath);
+    expect((await reloaded.read()).map((stored) => stored.offset)).toEqual([2]);
+  });
+});
@@ -0,0 +1,137 @@
+import path from "path";
+import { z } from "zod";
+import { Event, EventStoreQuery, IEventStore, StoredEvent, StoredEventSchema } from "@/types/events";
+import { JsonLinesFile } from "./file-stores";
+
+/**
+ * In-memory append-only event store
+ * Keeps the most recent events in memory; offsets keep increasing after eviction
+ */
+export class InMemoryEventStore implements IEventStore {
+  protected events: StoredEvent[] = [];
+  protected nextOffset: number = 0;
+
+  constructor(protected maxSize: number = 1000) {}
+
+  async append(event: Event): Promise<StoredEvent> {
+    const stored: StoredEvent = { offset: this.nextOffset++, event };
+    this.events.push(stored);
+    if (this.maxSize > 0 && this.events.length > this.maxSize) {
+      this.events.shift();
+    }
+    return stored;
+  }
+
+  /**
+   * Read events in offset order
+   * With a start position (fromOffset/fromTimestamp) the limit keeps the oldest matches,
+   * otherwise it keeps the most recent ones
+   */
+  async read(query?: EventStoreQuery): Promise<StoredEvent[]> {
+    const events = this.events.filter((stored) => this.matchesQuery(stored, query));
+
+    if (!query?.limit) return events;
+
+    const hasStartPosition = query.fromOffset !== undefined || query.fromTimestamp !== undefined;
+    return hasStartPosition ? events.slice(0, query.limit) : events.slice(-query.limit);
+  }
+
+  async getLatestOffset(): Promise<number> {
+    return this.nextOffset - 1;
+  }
+
+  async clear(): Promise<void> {
+    this.events = [];
+  }
+
+  /**
+   * Check whether a stored event matches the query filters
+   */
+  protected matchesQuery(stored: StoredEvent, query?: EventStoreQuery): boolean {
+    if (!query) return true;
+    const { event } = stored;
+
+    if (query.fromOffset !== undefined && stored.offset < query.fromOffset) return false;
+    if (query.fromTimestamp && new Date(event.timestamp) < query.fromTimestamp) return false;
+    if (query.eventTypes && query.eventTypes.length > 0 && !query.eventTypes.includes(event.type)) return false;
+    if (query.source && event.source !== query.source) return false;
+    if (query.startDate && new Date(event.timestamp) < query.startDate) return false;
+    if (query.endDate && new Date(event.timestamp) > query.endDate) return false;
+    if (query.correlationId && event.correlationId !== query.correlationId) return false;
+
+    return true;
+  }
+}
+
+/**
+ * Log record: a stored event, or the next offset to assign
+ * Clearing the log leaves only the offset record, so offsets keep increasing across restarts
+ */
+const EventLogRecordSchema = z.union([StoredEventSchema, z.object({ nextOffset: z.number().int().nonnegative() })]);
+type EventLogRecord = z.infer<typeof EventLogRecordSchema>;
+
+/**
+ * File-backed append-only event store
+ * Persists one JSON record per line so the log survives restarts without external services
+ */
+export class FileEventStore extends InMemoryEventStore {
+  private log: JsonLinesFile<EventLogRecord>;
+
+  constructor(filePath: string) {
+    // The file is the source of truth, so the in-memory index is unbounded
+    super(0);
+    // The log is never compacted; it is only rewritten when cleared or to drop corrupt records
+    this.log = new JsonLinesFile(filePath, {
+      schema: EventLogRecordSchema,
+      apply: (record) => {
+        if ("nextOffset" in record) {
+          this.nextOffset = Math.max(this.nextOffset, record.nextOffset);
+          return;
+        }
+        this.events.push(record);
+        this.nextOffset = Math.max(this.nextOffset, record.offset + 1);
+      },
+      snapshot: () => [{ nextOffset: this.nextOffset }, ...this.events],
+      size: () => this.events.length,
+      minCompactionSize: Infinity,
+      compactOnLoad: false,
+    });
+  }
+
+  async append(event: Event): Promise<StoredEvent> {
+    await this.log.ensureLoaded();
+    const stored = await super.append(event);
+    await this.log.append(stored);
+    return stored;
+  }
+
+  async read(query?: EventStoreQuery): Promise<StoredEvent[]> {
+    await this.log.ensureLoaded();
+    return super.read(query);
+  }
+
+  async getLatestOffset(): Promise<number> {
+    await this.log.ensureLoaded();
+    return super.getLatestOffset();
+  }
+
+  /**
+   * Clear the log; offsets are not reused
+   */
+  async clear(): Promise<void> {
+    await this.log.ensureLoaded();
+    await super.clear();
+    await this.log.compact();
+  }
+}
+
+/**
+ * Create the configured event store
+ * EVENT_STORE=memory keeps events in memory only; otherwise events are written to EVENT_STORE_PATH
+ */
+export function createEventStore(): IEventStore {
+  if (process.env.EVENT_STORE === "memory") {
+    return new InMemoryEventStore();
+  }
+  return new FileEventStore(process.env.EVENT_STORE_PATH || path.join(process.cwd(), ".data", "events.jsonl"));
+}
@@ -0,0 +1,105 @@
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+import { JsonLinesFile, JsonSnapshotFile } from "./file-stores";
+
+const EntrySchema = z.object({ id: z.string(), value: z.number() });
+type Entry = z.infer<typeof EntrySchema>;
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), "file-stores-"));
+  vi.spyOn(console, "error").mockImplementation(() => undefined);
+});
+
+afterEach(async () => {
+  vi.restoreAllMocks();
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+async function corruptCopies(): Promise<string[]> {
+  return (await fs.readdir(dir)).filter((name) => name.includes(".corrupt-"));
+}
+
+describe("JsonSnapshotFile", () => {
+  it("round-trips a snapshot", async () => {
+    const filePath = path.join(dir, "entries.json");
+    await new JsonSnapshotFile(filePath, EntrySchema, () => undefined).write([{ id: "a", value: 1 }]);
+
+    const loaded: Entry[] = [];
+    await new JsonSnapshotFile(filePath, EntrySchema, (entries) => loaded.push(...entries)).ensureLoaded();
+
+    expect(loaded).toEqual([{ id: "a", value: 1 }]);
+  });
+
+  it("keeps a copy of an unparsable file before it can be overwritten", async () => {
+    const filePath = path.join(dir, "entries.json");
+    await fs.writeFile(filePath, "[{ not json");
+
+    const file = new JsonSnapshotFile(filePath, EntrySchema, () => undefined);
+    await file.ensureLoaded();
+    await file.write([{ id: "b", value: 2 }]);
+
+    const copies = await corruptCopies();
+    expect(copies).toHaveLength(1);
+    expect(await fs.readFile(path.join(dir, copies[0]), "utf8")).toBe("[{ not json");
+  });
+
+  it("loads the valid entries and sets the file aside when some are invalid", async () => {
+    const filePath = path.join(dir, "entries.json");
+    await fs.writeFile(filePath, JSON.stringify([{ id: "a", value: 1 }, { id: "b" }]));
+
+    const loaded: Entry[] = [];
+    await new JsonSnapshotFile(filePath, EntrySchema, (entries) => loaded.push(...entries)).ensureLoaded();
+
+    expect(loaded).toEqual([{ id: "a", value: 1 }]);
+    expect(await corruptCopies()).toHaveLength(1);
+    expect(JSON.parse(await fs.readFile(filePath, "utf8"))).toEqual([{ id: "a", value: 1 }]);
+  });
+});
+
+describe("JsonLinesFile", () => {
+  function createJournal(filePath: string, state: Map<string, Entry>, minCompactionSize?: number) {
+    return new JsonLinesFile(filePath, {
+      schema: EntrySchema,
+      apply: (entry) => state.set(entry.id, entry),
+      snapshot: () => Array.from(state.values()),
+      size: () => state.size,
+      minCompactionSize,
+    });
+  }
+
+  it("replays appended records and compacts once superseded records outnumber live ones", async () => {
+    const filePath = path.join(dir, "entries.jsonl");
+    const state = new Map<string, Entry>();
+    const journal = createJournal(filePath, state, 4);
+    await journal.ensureLoaded();
+
+    for (let value = 0; value < 5; value++) {
+      state.set("a", { id: "a", value });
+      await journal.append({ id: "a", value });
+    }
+
+    const lines = (await fs.readFile(filePath, "utf8")).trim().split("\n");
+    expect(lines.map((line) => JSON.parse(line))).toEqual([{ id: "a", value: 4 }]);
+
+    const restored = new Map<string, Entry>();
+    await createJournal(filePath, restored).ensureLoaded();
+    expect(restored.get("a")).toEqual({ id: "a", value: 4 });
+  });
+
+  it("skips a partial trailing line and keeps a copy of the file", async () => {
+    const filePath = path.join(dir, "entries.jsonl");
+    await fs.writeFile(filePath, `${JSON.stringify({ id: "a", value: 1 })}\n{"id":"b","val`);
+
+    const state = new Map<string, Entry>();
+    await createJournal(filePath, state).ensureLoaded();
+
+    expect(Array.from(state.keys())).toEqual(["a"]);
+    expect(await corruptCopies()).toHaveLength(1);
+    expect(await fs.readFile(filePath, "utf8")).toBe(`${JSON.stringify({ id: "a", value: 1 })}\n`);
+  });
+});
@@ -0,0 +1,216 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { z } from "zod";
+
+/**
+ * JSON file holding a snapshot array, for small sets that are rewritten on every change
+ *
+ * Entries are validated with the schema when loading. A file that does not parse, or holds
+ * invalid entries, is copied aside as `<file>.corrupt-<timestamp>` and rewritten with the valid
+ * entries, so a later write cannot silently overwrite data that failed to load.
+ */
+export class JsonSnapshotFile<T> {
+  private loadPromise: Promise<void> | null = null;
+  private writes = new WriteQueue();
+
+  constructor(
+    private filePath: string,
+    private schema: z.ZodType<T>,
+    private restore: (entries: T[]) => void
+  ) {}
+
+  /**
+   * Read the file once and hand its valid entries to the restore callback
+   * A read error other than a missing file rejects, and the next call tries again
+   */
+  ensureLoaded(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = this.load().catch((error) => {
+        this.loadPromise = null;
+        throw error;
+      });
+    }
+    return this.loadPromise;
+  }
+
+  /**
+   * Replace the file contents via a temp file so a crash never leaves a half-written file
+   * Writes are serialized so the last snapshot wins
+   */
+  write(entries: T[]): Promise<void> {
+    const content = JSON.stringify(entries, null, 2);
+    return this.writes.run(async () => {
+      const tempPath = `${this.filePath}.tmp`;
+      await fs.writeFile(tempPath, content, "utf8");
+      await fs.rename(tempPath, this.filePath);
+    });
+  }
+
+  private async load(): Promise<void> {
+    const content = await readIfExists(this.filePath);
+    if (content === undefined) return;
+
+    let values: unknown[] | undefined;
+    try {
+      const parsed: unknown = JSON.parse(content);
+      values = Array.isArray(parsed) ? parsed : undefined;
+    } catch {
+      values = undefined;
+    }
+
+    const entries: T[] = [];
+    let corrupt = values === undefined;
+    for (const value of values || []) {
+      const parsed = this.schema.safeParse(value);
+      if (parsed.success) {
+        entries.push(parsed.data);
+      } else {
+        corrupt = true;
+      }
+    }
+
+    this.restore(entries);
+    if (corrupt) {
+      await setAside(this.filePath);
+      await this.write(entries);
+    }
+  }
+}
+
+/**
+ * Options for an append-only JSON Lines file
+ */
+export interface JsonLinesFileOptions<R> {
+  schema: z.ZodType<R>;
+  // Apply a loaded record to the in-memory state
+  apply: (record: R) => void;
+  // Records that reproduce the current state; written when the file is compacted
+  snapshot: () => R[];
+  // Live records, compared with the file length to decide when to compact
+  size: () => number;
+  // Compact once the file holds this many records and twice the live ones; Infinity never compacts
+  minCompactionSize?: number;
+  // Rewrite the file from the snapshot after loading (otherwise only when corrupt records were found)
+  compactOnLoad?: boolean;
+}
+
+/**
+ * Append-only JSON Lines file: one record per change, compacted to a snapshot of the live state
+ *
+ * Records that do not parse or fail the schema are skipped when loading; the file is then
+ * copied aside as `<file>.corrupt-<timestamp>` before being rewritten without them.
+ */
+export class JsonLinesFile<R> {
+  private loadPromise: Promise<void> | null = null;
+  private writes = new WriteQueue();
+  // Records in the file, including superseded ones
+  private length = 0;
+
+  constructor(
+    private filePath: string,
+    private options: JsonLinesFileOptions<R>
+  ) {}
+
+  /**
+   * Replay the file once into the in-memory state
+   * A read error other than a missing file rejects, and the next call tries again
+   */
+  ensureLoaded(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = this.load().catch((error) => {
+        this.loadPromise = null;
+        throw error;
+      });
+    }
+    return this.loadPromise;
+  }
+
+  /**
+   * Append a record, compacting once superseded records outnumber live ones
+   */
+  async append(record: R): Promise<void> {
+    this.length++;
+    const line = `${JSON.stringify(record)}\n`;
+    await this.writes.run(() => fs.appendFile(this.filePath, line, "utf8"));
+
+    const { minCompactionSize = 1000, size } = this.options;
+    if (this.length > Math.max(minCompactionSize, size() * 2)) {
+      await this.compact();
+    }
+  }
+
+  /**
+   * Rewrite the file with the current snapshot, via a temp file
+   * Writes are serialized so records land in change order
+   */
+  compact(): Promise<void> {
+    return this.writes.run(async () => {
+      const records = this.options.snapshot();
+      const tempPath = `${this.filePath}.tmp`;
+      const content = records.map((record) => JSON.stringify(record)).join("\n");
+      await fs.writeFile(tempPath, records.length > 0 ? `${content}\n` : "", "utf8");
+      await fs.rename(tempPath, this.filePath);
+      this.length = records.length;
+    });
+  }
+
+  private async load(): Promise<void> {
+    const content = (await readIfExists(this.filePath)) ?? "";
+
+    let corrupt = false;
+    for (const line of content.split("\n")) {
+      if (!line.trim()) continue;
+      this.length++;
+      try {
+        const parsed = this.options.schema.safeParse(JSON.parse(line));
+        if (parsed.success) {
+          this.options.apply(parsed.data);
+        } else {
+          corrupt = true;
+        }
+      } catch {
+        // Usually a partially written trailing line
+        corrupt = true;
+      }
+    }
+
+    if (corrupt) {
+      await setAside(this.filePath);
+    }
+    if (corrupt || this.options.compactOnLoad !== false) {
+      await this.compact();
+    }
+  }
+}
+
+/**
+ * Runs a file's writes one after another, without one failure blocking the next
+ */
+class WriteQueue {
+  private chain: Promise<void> = Promise.resolve();
+
+  run(write: () => Promise<void>): Promise<void> {
+    const next = this.chain.then(write);
+    this.chain = next.catch(() => undefined);
+    return next;
+  }
+}
+
+async function readIfExists(filePath: string): Promise<string | undefined> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  try {
+    return await fs.readFile(filePath, "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+    throw error;
+  }
+}
+
+/**
+ * Keep a copy of a file that could not be fully loaded before it is rewritten
+ */
+async function setAside(filePath: string): Promise<void> {
+  const corruptPath = `${filePath}.corrupt-${Date.now()}`;
+  await fs.copyFile(filePath, corruptPath);
+  console.error(`${filePath} could not be fully loaded; kept a copy at ${corruptPath}`);
+}
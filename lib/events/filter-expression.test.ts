@@ -0,0 +1,120 @@
+import { describe, expect, it } from "vitest";
+import { Event } from "@/types/events";
+import {
+  getValueAtPath,
+  isValidFilterExpression,
+  matchesFilterExpression,
+  parseFilterExpression,
+} from "./filter-expression";
+
+const event = {
+  id: "evt-1",
+  type: "ticket.created",
+  timestamp: "2026-03-08T12:00:00.000Z",
+  source: "ticketing",
+  correlationId: "evt-1",
+  metadata: { userId: "user-1" },
+  payload: { ticketId: "T-1", priority: "high", attempts: 3, escalated: false, assignee: null },
+} as unknown as Event;
+
+describe("parseFilterExpression", () => {
+  it("respects precedence of ||, && and !", () => {
+    expect(parseFilterExpression("a || b && !c")).toEqual({
+      kind: "logical",
+      operator: "||",
+      left: { kind: "path", path: ["a"] },
+      right: {
+        kind: "logical",
+        operator: "&&",
+        left: { kind: "path", path: ["b"] },
+        right: { kind: "not", operand: { kind: "path", path: ["c"] } },
+      },
+    });
+  });
+
+  it("parses literals and lists", () => {
+    expect(parseFilterExpression(`x in ["a", 'b', -1.5, true, null]`)).toEqual({
+      kind: "compare",
+      operator: "in",
+      left: { kind: "path", path: ["x"] },
+      right: {
+        kind: "list",
+        items: [
+          { kind: "literal", value: "a" },
+          { kind: "literal", value: "b" },
+          { kind: "literal", value: -1.5 },
+          { kind: "literal", value: true },
+          { kind: "literal", value: null },
+        ],
+      },
+    });
+  });
+
+  it("reports the position of invalid input", () => {
+    expect(() => parseFilterExpression("")).toThrow("expression is empty");
+    expect(() => parseFilterExpression('source == "open')).toThrow("unterminated string at position 10");
+    expect(() => parseFilterExpression("source == #")).toThrow('unexpected "#" at position 10');
+    expect(() => parseFilterExpression("(source")).toThrow('expected ")"');
+    expect(() => parseFilterExpression('type in "a"')).toThrow("expected a list after in at position 5");
+    expect(() => parseFilterExpression("source ==")).toThrow("unexpected end of expression");
+    expect(() => parseFilterExpression("source type")).toThrow('unexpected "type"');
+  });
+
+  it("caches parsed expressions, evicting the least recently used", () => {
+    const kept = parseFilterExpression('source == "kept"');
+    const evicted = parseFilterExpression('source == "evicted"');
+
+    for (let i = 0; i < 500; i++) {
+      if (i % 100 === 0) parseFilterExpression('source == "kept"');
+      parseFilterExpression(`payload.count == ${i}`);
+    }
+
+    expect(parseFilterExpression('source == "kept"')).toBe(kept);
+    expect(parseFilterExpression('source == "evicted"')).not.toBe(evicted);
+  });
+});
+
+describe("isValidFilterExpression", () => {
+  it("returns false instead of throwing", () => {
+    expect(isValidFilterExpression('payload.priority == "high"')).toBe(true);
+    expect(isValidFilterExpression("payload.priority ==")).toBe(false);
+  });
+});
+
+describe("matchesFilterExpression", () => {
+  it.each([
+    ['source == "ticketing"', true],
+    ["source != 'ticketing'", false],
+    ['payload.priority in ["high", "critical"]', true],
+    ['payload.priority in ["low"]', false],
+    ["payload.attempts >= 3 && payload.attempts < 4", true],
+    ["payload.attempts > 3", false],
+    ['timestamp > "2026-03-01"', true],
+    ["payload.escalated || payload.attempts == 3", true],
+    ["!payload.escalated", true],
+    ["(payload.escalated || payload.ticketId) && metadata.userId", true],
+    ["payload.assignee == null", true],
+    ["payload.missing == null", false],
+    ["payload.missing.deeper", false],
+  ])("%s is %s", (expression, expected) => {
+    expect(matchesFilterExpression(event, expression)).toBe(expected);
+  });
+
+  it("does not order values of different types", () => {
+    expect(matchesFilterExpression(event, 'payload.attempts > "1"')).toBe(false);
+    expect(matchesFilterExpression(event, 'payload.attempts < "9"')).toBe(false);
+  });
+
+  it("accepts a parsed expression", () => {
+    expect(matchesFilterExpression(event, parseFilterExpression('type == "ticket.created"'))).toBe(true);
+  });
+});
+
+describe("getValueAtPath", () => {
+  it("reads dotted paths and yields undefined for missing segments", () => {
+    expect(getValueAtPath(event, "payload.ticketId")).toBe("T-1");
+    expect(getValueAtPath(event, ["metadata", "userId"])).toBe("user-1");
+    expect(getValueAtPath(event, "payload.ticketId.length.x")).toBeUndefined();
+    expect(getValueAtPath(event, "payload.assignee.name")).toBeUndefined();
+  });
+});
@@ -0,0 +1,314 @@
+import { Event } from "@/types/events";
+
+/**
+ * Parsed filter expression
+ */
+export type FilterExpression =
+  | { kind: "literal"; value: FilterValue }
+  | { kind: "path"; path: string[] }
+  | { kind: "list"; items: FilterExpression[] }
+  | { kind: "not"; operand: FilterExpression }
+  | { kind: "logical"; operator: "&&" | "||"; left: FilterExpression; right: FilterExpression }
+  | { kind: "compare"; operator: CompareOperator; left: FilterExpression; right: FilterExpression };
+
+type FilterValue = string | number | boolean | null | undefined;
+type CompareOperator = "==" | "!=" | ">" | ">=" | "<" | "<=" | "in";
+
+type Token =
+  | { type: "string" | "number" | "identifier" | "operator" | "punctuation"; value: string; position: number }
+  | { type: "end"; value: ""; position: number };
+
+const COMPARE_OPERATORS: readonly string[] = ["==", "!=", ">=", "<=", ">", "<"];
+const KEYWORDS: Record<string, FilterValue> = { true: true, false: false, null: null };
+
+/**
+ * Compiled expression cache, least recently used first
+ * Bounded because expressions come from webhook registrations, which can change without limit
+ */
+const compiledExpressions: Map<string, FilterExpression> = new Map();
+const MAX_COMPILED_EXPRESSIONS = 500;
+
+/**
+ * Parse a filter expression evaluated against an event
+ *
+ * - Paths address event fields: `source`, `type`, `payload.priority`, `metadata.userId`
+ * - Literals: "strings" or 'strings', numbers, true, false, null
+ * - Comparisons: ==, !=, >, >=, <, <=, and `in` against a list (`payload.priority in ["high", "critical"]`)
+ * - Combine with &&, || and !, group with parentheses; a bare path tests for a truthy value
+ *
+ * Throws on invalid input
+ */
+export function parseFilterExpression(expression: string): FilterExpression {
+  const cached = compiledExpressions.get(expression);
+  if (cached) {
+    // Move to the most recently used end
+    compiledExpressions.delete(expression);
+    compiledExpressions.set(expression, cached);
+    return cached;
+  }
+
+  const parser = new Parser(expression, tokenize(expression));
+  const parsed = parser.parse();
+  compiledExpressions.set(expression, parsed);
+  if (compiledExpressions.size > MAX_COMPILED_EXPRESSIONS) {
+    compiledExpressions.delete(compiledExpressions.keys().next().value!);
+  }
+  return parsed;
+}
+
+/**
+ * Check whether a filter expression parses
+ */
+export function isValidFilterExpression(expression: string): boolean {
+  try {
+    parseFilterExpression(expression);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check whether an event matches a filter expression
+ */
+export function matchesFilterExpression(event: Event, expression: string | FilterExpression): boolean {
+  const parsed = typeof expression === "string" ? parseFilterExpression(expression) : expression;
+  return Boolean(evaluate(parsed, event));
+}
+
+/**
+ * Read a dotted path from a value; missing segments yield undefined
+ */
+export function getValueAtPath(value: unknown, path: string | string[]): unknown {
+  const segments = Array.isArray(path) ? path : path.split(".");
+  return segments.reduce<unknown>(
+    (current, segment) =>
+      current !== null && typeof current === "object" ? (current as Record<string, unknown>)[segment] : undefined,
+    value
+  );
+}
+
+function evaluate(expression: FilterExpression, event: Event): unknown {
+  switch (expression.kind) {
+    case "literal":
+      return expression.value;
+    case "path":
+      return getValueAtPath(event, expression.path);
+    case "list":
+      return expression.items.map((item) => evaluate(item, event));
+    case "not":
+      return !evaluate(expression.operand, event);
+    case "logical":
+      return expression.operator === "&&"
+        ? Boolean(evaluate(expression.left, event)) && Boolean(evaluate(expression.right, event))
+        : Boolean(evaluate(expression.left, event)) || Boolean(evaluate(expression.right, event));
+    case "compare":
+      return compare(expression.operator, evaluate(expression.left, event), evaluate(expression.right, event));
+  }
+}
+
+function compare(operator: CompareOperator, left: unknown, right: unknown): boolean {
+  switch (operator) {
+    case "==":
+      return left === right;
+    case "!=":
+      return left !== right;
+    case "in":
+      return Array.isArray(right) && right.includes(left);
+  }
+
+  // Ordering only applies between two numbers or two strings (ISO timestamps compare as strings)
+  if (!(typeof left === "number" && typeof right === "number") && !(typeof left === "string" && typeof right === "string")) {
+    return false;
+  }
+  switch (operator) {
+    case ">":
+      return left > right;
+    case ">=":
+      return left >= right;
+    case "<":
+      return left < right;
+    case "<=":
+      return left <= right;
+  }
+}
+
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  const fail = (reason: string): never => {
+    throw new Error(`Invalid filter expression "${expression}": ${reason} at position ${i}`);
+  };
+
+  while (i < expression.length) {
+    const char = expression[i];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '"' || char === "'") {
+      const start = i;
+      let value = "";
+      i++;
+      while (i < expression.length && expression[i] !== char) {
+        if (expression[i] === "\\" && i + 1 < expression.length) i++;
+        value += expression[i++];
+      }
+      if (i >= expression.length) {
+        i = start;
+        fail("unterminated string");
+      }
+      i++;
+      tokens.push({ type: "string", value, position: start });
+    } else if (/[0-9]/.test(char) || (char === "-" && /[0-9]/.test(expression[i + 1] || ""))) {
+      const match = /^-?\d+(\.\d+)?/.exec(expression.slice(i))!;
+      tokens.push({ type: "number", value: match[0], position: i });
+      i += match[0].length;
+    } else if (/[A-Za-z_$]/.test(char)) {
+      const match = /^[A-Za-z_$][\w$]*(\.[A-Za-z_$][\w$]*)*/.exec(expression.slice(i))!;
+      tokens.push({ type: "identifier", value: match[0], position: i });
+      i += match[0].length;
+    } else {
+      const operator = ["&&", "||", ...COMPARE_OPERATORS, "!"].find((op) => expression.startsWith(op, i));
+      if (operator) {
+        tokens.push({ type: "operator", value: operator, position: i });
+        i += operator.length;
+      } else if ("()[],".includes(char)) {
+        tokens.push({ type: "punctuation", value: char, position: i });
+        i++;
+      } else {
+        fail(`unexpected "${char}"`);
+      }
+    }
+  }
+
+  tokens.push({ type: "end", value: "", position: expression.length });
+  return tokens;
+}
+
+/**
+ * Recursive descent parser; precedence from loosest: ||, &&, !, comparison
+ */
+class Parser {
+  private index = 0;
+
+  constructor(
+    private expression: string,
+    private tokens: Token[]
+  ) {}
+
+  parse(): FilterExpression {
+    if (this.peek().type === "end") {
+      this.fail("expression is empty");
+    }
+    const parsed = this.parseOr();
+    if (this.peek().type !== "end") {
+      this.fail(`unexpected "${this.peek().value}"`);
+    }
+    return parsed;
+  }
+
+  private parseOr(): FilterExpression {
+    let left = this.parseAnd();
+    while (this.accept("operator", "||")) {
+      left = { kind: "logical", operator: "||", left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): FilterExpression {
+    let left = this.parseNot();
+    while (this.accept("operator", "&&")) {
+      left = { kind: "logical", operator: "&&", left, right: this.parseNot() };
+    }
+    return left;
+  }
+
+  private parseNot(): FilterExpression {
+    if (this.accept("operator", "!")) {
+      return { kind: "not", operand: this.parseNot() };
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): FilterExpression {
+    const left = this.parseOperand();
+    const token = this.peek();
+
+    if (token.type === "operator" && COMPARE_OPERATORS.includes(token.value)) {
+      this.index++;
+      return { kind: "compare", operator: token.value as CompareOperator, left, right: this.parseOperand() };
+    }
+    if (token.type === "identifier" && token.value === "in") {
+      this.index++;
+      const right = this.parseOperand();
+      if (right.kind !== "list") {
+        this.fail("expected a list after in", token.position);
+      }
+      return { kind: "compare", operator: "in", left, right };
+    }
+    return left;
+  }
+
+  private parseOperand(): FilterExpression {
+    const token = this.peek();
+    this.index++;
+
+    switch (token.type) {
+      case "string":
+        return { kind: "literal", value: token.value };
+      case "number":
+        return { kind: "literal", value: Number(token.value) };
+      case "identifier":
+        if (token.value in KEYWORDS) {
+          return { kind: "literal", value: KEYWORDS[token.value] };
+        }
+        if (token.value === "in") break;
+        return { kind: "path", path: token.value.split(".") };
+      case "punctuation":
+        if (token.value === "(") {
+          const inner = this.parseOr();
+          this.expect(")");
+          return inner;
+        }
+        if (token.value === "[") {
+          const items: FilterExpression[] = [];
+          if (!this.accept("punctuation", "]")) {
+            do {
+              items.push(this.parseOperand());
+            } while (this.accept("punctuation", ","));
+            this.expect("]");
+          }
+          return { kind: "list", items };
+        }
+        break;
+      case "end":
+        this.fail("unexpected end of expression", token.position);
+    }
+
+    return this.fail(`unexpected "${token.value}"`, token.position);
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private accept(type: Token["type"], value: string): boolean {
+    const token = this.peek();
+    if (token.type === type && token.value === value) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private expect(value: string): void {
+    if (!this.accept("punctuation", value)) {
+      this.fail(`expected "${value}"`);
+    }
+  }
+
+  private fail(reason: string, position: number = this.peek().position): never {
+    throw new Error(`Invalid filter expression "${this.expression}": ${reason} at position ${position}`);
+  }
+}
@@ -0,0 +1,71 @@
+/**
+ * Array-backed binary heap
+ * The comparator returns a negative number when `a` should come out before `b`
+ */
+export class BinaryHeap<T> {
+  private items: T[] = [];
+
+  constructor(private compare: (a: T, b: T) => number) {}
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  peek(): T | undefined {
+    return this.items[0];
+  }
+
+  push(item: T): void {
+    this.items.push(item);
+    this.siftUp(this.items.length - 1);
+  }
+
+  pop(): T | undefined {
+    const top = this.items[0];
+    const last = this.items.pop();
+    if (this.items.length > 0 && last !== undefined) {
+      this.items[0] = last;
+      this.siftDown(0);
+    }
+    return top;
+  }
+
+  /**
+   * Items in heap (not sorted) order
+   */
+  toArray(): T[] {
+    return [...this.items];
+  }
+
+  clear(): void {
+    this.items = [];
+  }
+
+  private siftUp(index: number): void {
+    const item = this.items[index];
+    while (index > 0) {
+      const parentIndex = (index - 1) >> 1;
+      const parent = this.items[parentIndex];
+      if (this.compare(item, parent) >= 0) break;
+      this.items[index] = parent;
+      index = parentIndex;
+    }
+    this.items[index] = item;
+  }
+
+  private siftDown(index: number): void {
+    const length = this.items.length;
+    const item = this.items[index];
+
+    while (true) {
+      const left = 2 * index + 1;
+      if (left >= length) break;
+      const right = left + 1;
+      const child = right < length && this.compare(this.items[right], this.items[left]) < 0 ? right : left;
+      if (this.compare(this.items[child], item) >= 0) break;
+      this.items[index] = this.items[child];
+      index = child;
+    }
+    this.items[index] = item;
+  }
+}
@@ -0,0 +1,46 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { InMemoryProcessedKeyLedger } from "./idempotency";
+
+const RETENTION_MS = 60 * 1000;
+
+class InspectableLedger extends InMemoryProcessedKeyLedger {
+  get size(): number {
+    return this.entries.size;
+  }
+}
+
+describe("InMemoryProcessedKeyLedger", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("drops expired entries when new keys are recorded", async () => {
+    vi.useFakeTimers();
+    const ledger = new InspectableLedger(RETENTION_MS);
+
+    await ledger.record("key-1", "subscription");
+    await ledger.record("key-2", "subscription");
+    vi.advanceTimersByTime(RETENTION_MS + 1);
+    await ledger.record("key-3", "subscription");
+
+    expect(ledger.size).toBe(1);
+    expect(await ledger.has("key-1", "subscription")).toBe(false);
+    expect(await ledger.has("key-3", "subscription")).toBe(true);
+  });
+
+  it("keeps a key recorded again within the window", async () => {
+    vi.useFakeTimers();
+    const ledger = new InspectableLedger(RETENTION_MS);
+
+    await ledger.record("key-1", "subscription");
+    await ledger.record("key-2", "subscription");
+    vi.advanceTimersByTime(RETENTION_MS / 2);
+    await ledger.record("key-1", "subscription");
+    vi.advanceTimersByTime(RETENTION_MS / 2 + 1);
+    await ledger.record("key-3", "subscription");
+
+    expect(await ledger.has("key-1", "subscription")).toBe(true);
+    expect(await ledger.has("key-2", "subscription")).toBe(false);
+    expect(ledger.size).toBe(2);
+  });
+});
@@ -0,0 +1,126 @@
+import path from "path";
+import { z } from "zod";
+import { IProcessedKeyLedger } from "@/types/events";
+import { JsonLinesFile } from "./file-stores";
+
+const DEFAULT_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+const LedgerEntrySchema = z.object({
+  key: z.string(),
+  subscriptionId: z.string(),
+  processedAt: z.number(),
+});
+type LedgerEntry = z.infer<typeof LedgerEntrySchema>;
+
+/**
+ * In-memory processed-key ledger
+ * Entries older than the retention period are forgotten; they are dropped as new keys are recorded
+ */
+export class InMemoryProcessedKeyLedger implements IProcessedKeyLedger {
+  protected entries: Map<string, LedgerEntry> = new Map();
+
+  constructor(protected retentionMs: number = DEFAULT_RETENTION_MS) {}
+
+  async has(key: string, subscriptionId: string): Promise<boolean> {
+    const entry = this.entries.get(this.entryKey(key, subscriptionId));
+    return entry !== undefined && entry.processedAt >= Date.now() - this.retentionMs;
+  }
+
+  async record(key: string, subscriptionId: string): Promise<void> {
+    this.setEntry({ key, subscriptionId, processedAt: Date.now() });
+    this.prune();
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+
+  /**
+   * Insert or refresh an entry, moving it to the end so entries stay in processedAt order
+   */
+  protected setEntry(entry: LedgerEntry): void {
+    const entryKey = this.entryKey(entry.key, entry.subscriptionId);
+    this.entries.delete(entryKey);
+    this.entries.set(entryKey, entry);
+  }
+
+  /**
+   * Drop entries past the retention period, oldest first
+   */
+  protected prune(): void {
+    const cutoff = Date.now() - this.retentionMs;
+    for (const [entryKey, entry] of this.entries) {
+      if (entry.processedAt >= cutoff) break;
+      this.entries.delete(entryKey);
+    }
+  }
+
+  protected entryKey(key: string, subscriptionId: string): string {
+    return JSON.stringify([subscriptionId, key]);
+  }
+}
+
+/**
+ * File-backed processed-key ledger
+ * Appends one JSON record per processed key; the file is rewritten without expired records when
+ * loading and whenever it has grown to twice the live entries
+ */
+export class FileProcessedKeyLedger extends InMemoryProcessedKeyLedger {
+  private journal: JsonLinesFile<LedgerEntry>;
+
+  constructor(filePath: string, retentionMs?: number) {
+    super(retentionMs);
+    this.journal = new JsonLinesFile(filePath, {
+      schema: LedgerEntrySchema,
+      apply: (entry) => this.setEntry(entry),
+      snapshot: () => {
+        this.prune();
+        return Array.from(this.entries.values());
+      },
+      size: () => this.entries.size,
+    });
+  }
+
+  async has(key: string, subscriptionId: string): Promise<boolean> {
+    await this.journal.ensureLoaded();
+    return super.has(key, subscriptionId);
+  }
+
+  async record(key: string, subscriptionId: string): Promise<void> {
+    await this.journal.ensureLoaded();
+    await super.record(key, subscriptionId);
+    await this.journal.append(this.entries.get(this.entryKey(key, subscriptionId))!);
+  }
+
+  async clear(): Promise<void> {
+    await this.journal.ensureLoaded();
+    await super.clear();
+    await this.journal.compact();
+  }
+}
+
+/**
+ * Create the configured processed-key ledger
+ * EVENT_STORE=memory keeps the ledger in memory only; otherwise it is written to IDEMPOTENCY_LEDGER_PATH
+ */
+export function createProcessedKeyLedger(): IProcessedKeyLedger {
+  if (process.env.EVENT_STORE === "memory") {
+    return new InMemoryProcessedKeyLedger();
+  }
+  return new FileProcessedKeyLedger(
+    process.env.IDEMPOTENCY_LEDGER_PATH || path.join(process.cwd(), ".data", "processed-keys.jsonl")
+  );
+}
+
+// Singleton instance
+let ledgerInstance: IProcessedKeyLedger | null = null;
+
+/**
+ * Shared processed-key ledger; one instance per process so a ledger file has a single writer
+ */
+export function getProcessedKeyLedger(): IProcessedKeyLedger {
+  if (!ledgerInstance) {
+    ledgerInstance = createProcessedKeyLedger();
+  }
+  return ledgerInstance;
+}
@@ -0,0 +1,182 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { Event } from "@/types/events";
+import { encodeCloudEventHttp } from "./cloudevents";
+import { getEventBus } from "./event-bus";
+import { InboundWebhookReceiver } from "./inbound-webhooks";
+import { signWebhookPayload, WEBHOOK_HEADERS } from "./webhook-handlers";
+
+const SECRET = "inbound-secret";
+
+function ticketData(overrides: Record<string, unknown> = {}) {
+  return {
+    id: "tkt-1",
+    ticket_title: "Laptop request",
+    ticket_description: "New starter laptop",
+    category: "it_support",
+    priority: "high",
+    ticket_status: "open",
+    reporter_id: "emp-1",
+    tags: [],
+    comments: [],
+    created_at: "2026-01-01T09:00:00.000Z",
+    updated_at: "2026-01-01T09:00:00.000Z",
+    ...overrides,
+  };
+}
+
+function signedHeaders(body: string, headers: Record<string, string> = {}, secret: string = SECRET): Headers {
+  const timestamp = Math.floor(Date.now() / 1000);
+  return new Headers({
+    ...headers,
+    [WEBHOOK_HEADERS.timestamp]: String(timestamp),
+    [WEBHOOK_HEADERS.signature]: signWebhookPayload(secret, timestamp, body),
+  });
+}
+
+describe("InboundWebhookReceiver", () => {
+  let published: Event[];
+
+  beforeEach(() => {
+    published = [];
+    getEventBus().subscribe({
+      id: "inbound-test-ticketing",
+      eventType: "ticket.*",
+      filter: (event) => event.source === "ticketing",
+      handler: async (event) => {
+        published.push(event);
+      },
+    });
+    vi.spyOn(console, "warn").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    getEventBus().unsubscribe("inbound-test-ticketing");
+    vi.restoreAllMocks();
+  });
+
+  it("rejects unknown services, unconfigured services and bad signatures", async () => {
+    const receiver = new InboundWebhookReceiver(undefined, { ticketing: SECRET });
+    const body = JSON.stringify({ event: "ticket.created", id: "evt-1", data: ticketData() });
+
+    expect(await receiver.receive("crm", body, signedHeaders(body))).toMatchObject({
+      status: "rejected",
+      reason: "unknown_service",
+    });
+    expect(await receiver.receive("wfm", body, signedHeaders(body))).toMatchObject({
+      status: "rejected",
+      reason: "not_configured",
+    });
+    expect(await receiver.receive("ticketing", body, signedHeaders(body, {}, "wrong-secret"))).toMatchObject({
+      status: "rejected",
+      reason: "invalid_signature",
+    });
+    expect(await receiver.receive("ticketing", body, new Headers())).toMatchObject({
+      status: "rejected",
+      reason: "invalid_signature",
+    });
+    expect(published).toHaveLength(0);
+    expect(await receiver.listQuarantined()).toHaveLength(0);
+  });
+
+  it("maps the snake_case entity and publishes the internal event", async () => {
+    const receiver = new InboundWebhookReceiver(undefined, { ticketing: SECRET });
+    const body = JSON.stringify({
+      event: "ticket.assigned",
+      id: "evt-2",
+      occurred_at: "2026-01-01T10:00:00.000Z",
+      data: ticketData({ assignee_id: "emp-2", related_entity_id: "req-1" }),
+    });
+
+    const result = await receiver.receive("ticketing", body, signedHeaders(body));
+
+    expect(result.status).toBe("published");
+    expect(published).toHaveLength(1);
+    expect(published[0]).toMatchObject({
+      type: "ticket.assigned",
+      source: "ticketing",
+      payload: { ticketId: "tkt-1", assigneeId: "emp-2", relatedEntityId: "req-1", after: { title: "Laptop request" } },
+      metadata: {
+        externalEventId: "evt-2",
+        externalEventType: "ticket.assigned",
+        occurredAt: "2026-01-01T10:00:00.000Z",
+      },
+    });
+  });
+
+  it("acknowledges a repeated external event ID without publishing it again", async () => {
+    const receiver = new InboundWebhookReceiver(undefined, { ticketing: SECRET });
+    const body = JSON.stringify({ event: "ticket.created", id: "evt-3", data: ticketData() });
+
+    expect((await receiver.receive("ticketing", body, signedHeaders(body))).status).toBe("published");
+    expect(await receiver.receive("ticketing", body, signedHeaders(body))).toEqual({
+      status: "duplicate",
+      externalEventId: "evt-3",
+    });
+    expect(published).toHaveLength(1);
+
+    // Callbacks without an external ID cannot be told apart and are always published
+    const anonymous = JSON.stringify({ event: "ticket.created", data: ticketData() });
+    await receiver.receive("ticketing", anonymous, signedHeaders(anonymous));
+    await receiver.receive("ticketing", anonymous, signedHeaders(anonymous));
+    expect(published).toHaveLength(3);
+  });
+
+  it("quarantines authentic callbacks that cannot be converted, with the reason", async () => {
+    const receiver = new InboundWebhookReceiver(undefined, { ticketing: SECRET });
+    const bodies = [
+      "not json",
+      JSON.stringify({ event: "ticket.archived", id: "evt-4", data: ticketData() }),
+      JSON.stringify({ event: "ticket.assigned", id: "evt-5", data: ticketData() }),
+      JSON.stringify({ event: "ticket.created", id: "evt-6", data: ticketData({ id: 42 }) }),
+    ];
+
+    for (const body of bodies) {
+      const result = await receiver.receive("ticketing", body, signedHeaders(body));
+      expect(result.status).toBe("quarantined");
+    }
+
+    const entries = await receiver.listQuarantined("ticketing");
+    expect(entries.map((entry) => [entry.reason, entry.externalEventId])).toEqual([
+      ["invalid_payload", "evt-6"],
+      ["invalid_payload", "evt-5"],
+      ["unknown_event", "evt-4"],
+      ["invalid_body", undefined],
+    ]);
+    expect(entries[1].error).toBe("ticket.assigned callback has no assignee_id");
+    expect(entries[0].details).toEqual(expect.arrayContaining([expect.objectContaining({ path: "payload.ticketId" })]));
+    expect(entries[3].body).toBe("not json");
+    expect(published).toHaveLength(0);
+  });
+
+  it("accepts CloudEvents in structured and binary mode", async () => {
+    const receiver = new InboundWebhookReceiver(undefined, { ticketing: SECRET }, { ticketing: "cloudevents" });
+
+    for (const [index, mode] of (["structured", "binary"] as const).entries()) {
+      const { headers, body } = encodeCloudEventHttp(
+        {
+          specversion: "1.0",
+          id: `ce-${index}`,
+          source: "https://ticketing.example.test",
+          type: "ticket.created",
+          time: "2026-01-01T10:00:00Z",
+          datacontenttype: "application/json",
+          data: ticketData({ id: `tkt-ce-${index}` }),
+        },
+        mode
+      );
+
+      const result = await receiver.receive("ticketing", body, signedHeaders(body, headers));
+      expect(result.status).toBe("published");
+    }
+
+    expect(published.map((event) => [event.payload.ticketId, event.metadata?.externalEventId])).toEqual([
+      ["tkt-ce-0", "ce-0"],
+      ["tkt-ce-1", "ce-1"],
+    ]);
+    expect(published[1].metadata?.occurredAt).toBe("2026-01-01T10:00:00.000Z");
+
+    const notCloudEvent = JSON.stringify({ event: "ticket.created", data: ticketData() });
+    const result = await receiver.receive("ticketing", notCloudEvent, signedHeaders(notCloudEvent));
+    expect(result).toMatchObject({ status: "quarantined", entry: { reason: "invalid_body" } });
+  });
+});
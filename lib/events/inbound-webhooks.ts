@@ -0,0 +1,453 @@
+import { z } from "zod";
+import { IdentityMapper, mapperRegistry, transformUtils } from "@/lib/mappers";
+import {
+  Event,
+  EventPayload,
+  EventType,
+  IProcessedKeyLedger,
+  IQuarantineStore,
+  QuarantinedPayload,
+} from "@/types/events";
+import { decodeCloudEventHttp } from "./cloudevents";
+import { getEventBus } from "./event-bus";
+import { getProcessedKeyLedger, InMemoryProcessedKeyLedger } from "./idempotency";
+import { createQuarantineStore, InMemoryQuarantineStore } from "./quarantine-store";
+import { EventValidationIssue, validateEventPayload } from "./validation";
+import { verifyWebhookSignature, WEBHOOK_HEADERS } from "./webhook-handlers";
+
+/**
+ * External systems that can call back into the portal
+ */
+export const INBOUND_SERVICES = ["h2r", "lms", "wfm", "ticketing", "performance"] as const;
+export type InboundService = (typeof INBOUND_SERVICES)[number];
+
+/**
+ * Body format a service sends: the inbound envelope below, or a CloudEvents 1.0 event
+ * in structured or binary HTTP mode, where type, id and time fill the envelope's event, id and occurred_at
+ */
+export type InboundWebhookFormat = "envelope" | "cloudevents";
+
+type MapperKey = keyof typeof mapperRegistry;
+type MappedEntity<K extends MapperKey> = ReturnType<(typeof mapperRegistry)[K]["toTarget"]>;
+
+/**
+ * How one external event name becomes an internal event
+ */
+interface InboundRoute {
+  eventType: EventType;
+  entity: MapperKey;
+  toPayload: (entity: never) => Record<string, unknown>;
+}
+
+function route<K extends MapperKey, T extends EventType>(
+  entity: K,
+  eventType: T,
+  toPayload: (entity: MappedEntity<K>) => EventPayload<T>
+): InboundRoute {
+  return { eventType, entity, toPayload };
+}
+
+/**
+ * A ticket.assigned callback must name the assignee
+ * Throwing quarantines the callback as an invalid payload
+ */
+function requireAssignee(assigneeId: string | undefined): string {
+  if (!assigneeId) {
+    throw new Error("ticket.assigned callback has no assignee_id");
+  }
+  return assigneeId;
+}
+
+// Ledger subscription under which published external event IDs are recorded
+const INBOUND_LEDGER_ID = "inbound-webhooks";
+
+/**
+ * External event names per service; payloads match the ones the service clients publish
+ */
+const INBOUND_ROUTES: Record<InboundService, Record<string, InboundRoute>> = {
+  h2r: {
+    "requisition.created": route("hiringRequisition", "h2r.requisition.created", (r) => ({
+      requisitionId: r.id,
+      department: r.department,
+      requestedBy: r.requestedBy,
+      title: r.title,
+      after: r,
+    })),
+    "requisition.approved": route("hiringRequisition", "h2r.requisition.approved", (r) => ({
+      requisitionId: r.id,
+      department: r.department,
+      after: r,
+    })),
+    "requisition.completed": route("hiringRequisition", "h2r.requisition.completed", (r) => ({
+      requisitionId: r.id,
+      ticketIds: r.ticketIds,
+      after: r,
+    })),
+    "requisition.cancelled": route("hiringRequisition", "h2r.requisition.cancelled", (r) => ({
+      requisitionId: r.id,
+      after: r,
+    })),
+    "employee.onboarded": route("employee", "h2r.employee.onboarded", (e) => ({
+      employeeId: e.id,
+      department: e.department,
+      after: e,
+    })),
+  },
+  lms: {
+    "course.enrolled": route("courseEnrollment", "lms.course.enrolled", (e) => ({
+      enrollmentId: e.id,
+      employeeId: e.employeeId,
+      courseId: e.courseId,
+      after: e,
+    })),
+    "course.started": route("courseEnrollment", "lms.course.started", (e) => ({
+      enrollmentId: e.id,
+      employeeId: e.employeeId,
+      courseId: e.courseId,
+      after: e,
+    })),
+    "course.completed": route("courseEnrollment", "lms.course.completed", (e) => ({
+      enrollmentId: e.id,
+      employeeId: e.employeeId,
+      courseId: e.courseId,
+      score: e.score,
+      after: e,
+    })),
+    "course.dropped": route("courseEnrollment", "lms.course.dropped", (e) => ({
+      enrollmentId: e.id,
+      employeeId: e.employeeId,
+      courseId: e.courseId,
+      after: e,
+    })),
+  },
+  wfm: {
+    "shift.scheduled": route("shift", "wfm.shift.scheduled", (s) => ({
+      shiftId: s.id,
+      employeeId: s.employeeId,
+      date: s.date,
+      startTime: s.startTime,
+      endTime: s.endTime,
+      after: s,
+    })),
+    "shift.completed": route("shift", "wfm.shift.completed", (s) => ({
+      shiftId: s.id,
+      employeeId: s.employeeId,
+      date: s.date,
+      after: s,
+    })),
+    "attendance.recorded": route("attendance", "wfm.attendance.recorded", (a) => ({
+      attendanceId: a.id,
+      employeeId: a.employeeId,
+      date: a.date,
+      status: a.status,
+      after: a,
+    })),
+  },
+  ticketing: {
+    "ticket.created": route("ticket", "ticket.created", (t) => ({
+      ticketId: t.id,
+      category: t.category,
+      priority: t.priority,
+      relatedEntityId: t.relatedEntityId,
+      after: t,
+    })),
+    "ticket.assigned": route("ticket", "ticket.assigned", (t) => ({
+      ticketId: t.id,
+      assigneeId: requireAssignee(t.assigneeId),
+      relatedEntityId: t.relatedEntityId,
+      after: t,
+    })),
+    "ticket.updated": route("ticket", "ticket.updated", (t) => ({
+      ticketId: t.id,
+      relatedEntityId: t.relatedEntityId,
+      after: t,
+    })),
+    "ticket.resolved": route("ticket", "ticket.resolved", (t) => ({
+      ticketId: t.id,
+      relatedEntityId: t.relatedEntityId,
+      after: t,
+    })),
+    "ticket.closed": route("ticket", "ticket.closed", (t) => ({
+      ticketId: t.id,
+      relatedEntityId: t.relatedEntityId,
+      after: t,
+    })),
+  },
+  performance: {
+    "assessment.created": route("qualityAssessment", "performance.assessment.created", (a) => ({
+      assessmentId: a.id,
+      employeeId: a.employeeId,
+      score: a.score,
+      after: a,
+    })),
+    "kpi.updated": route("performanceMetric", "performance.kpi.updated", (m) => ({
+      employeeId: m.employeeId,
+      kpiId: m.kpiId,
+      metricId: m.id,
+      period: m.period,
+      actualValue: m.actualValue,
+      after: m,
+    })),
+    "skill_gap.identified": route("skillGap", "performance.skill_gap.identified", (g) => ({
+      employeeId: g.employeeId,
+      skillGapId: g.id,
+      skillName: g.skillName,
+      after: g,
+    })),
+  },
+};
+
+/**
+ * Body posted by an external system
+ * { "event": "requisition.approved", "id": "evt_123", "occurred_at": "...", "data": { ...snake_case entity } }
+ */
+const InboundEnvelopeSchema = z.object({
+  event: z.string(),
+  id: z.string().optional(),
+  occurred_at: z.string().datetime().optional(),
+  data: z.record(z.string(), z.unknown()),
+});
+type InboundEnvelope = z.infer<typeof InboundEnvelopeSchema>;
+
+type InboundEnvelopeResult =
+  | { success: true; envelope: InboundEnvelope }
+  | { success: false; error: string; details?: EventValidationIssue[] };
+
+/**
+ * Outcome of an inbound callback
+ * Rejected requests are not stored; quarantined ones were authentic but could not be converted
+ */
+export type InboundWebhookResult =
+  | { status: "published"; event: Event }
+  | { status: "duplicate"; externalEventId: string }
+  | { status: "quarantined"; entry: QuarantinedPayload }
+  | { status: "rejected"; reason: "unknown_service" | "not_configured" | "invalid_signature"; message: string };
+
+/**
+ * Receives callbacks from external systems, verifies them and publishes the matching internal events
+ * Each service signs requests with its shared secret, read from INBOUND_WEBHOOK_SECRET_<SERVICE>
+ * (e.g. INBOUND_WEBHOOK_SECRET_H2R) or INBOUND_WEBHOOK_SECRET, using the outbound signature scheme.
+ * Services opt into CloudEvents bodies the same way, with INBOUND_WEBHOOK_FORMAT_<SERVICE>=cloudevents
+ * A callback whose external event ID was already published is acknowledged without publishing again
+ */
+export class InboundWebhookReceiver {
+  constructor(
+    private quarantine: IQuarantineStore = new InMemoryQuarantineStore(),
+    private secrets: Partial<Record<InboundService, string>> = {},
+    private formats: Partial<Record<InboundService, InboundWebhookFormat>> = {},
+    private ledger: IProcessedKeyLedger = new InMemoryProcessedKeyLedger()
+  ) {}
+
+  /**
+   * Verify, convert and publish one callback
+   */
+  async receive(service: string, body: string, headers: Headers): Promise<InboundWebhookResult> {
+    if (!isInboundService(service)) {
+      return {
+        status: "rejected",
+        reason: "unknown_service",
+        message: `Unknown service: ${service}. Valid services: ${INBOUND_SERVICES.join(", ")}`,
+      };
+    }
+
+    const secret = this.getSecret(service);
+    if (!secret) {
+      return {
+        status: "rejected",
+        reason: "not_configured",
+        message: `No inbound webhook secret is configured for ${service}`,
+      };
+    }
+
+    const timestamp = Number(headers.get(WEBHOOK_HEADERS.timestamp));
+    const signature = headers.get(WEBHOOK_HEADERS.signature) || "";
+    if (!verifyWebhookSignature(secret, timestamp, body, signature)) {
+      return { status: "rejected", reason: "invalid_signature", message: "Missing, invalid or expired signature" };
+    }
+
+    // Binary-mode CloudEvents keep their attributes in headers, so only the data is quarantined
+    const parsed =
+      this.getFormat(service) === "cloudevents" ? readCloudEventEnvelope(headers, body) : readEnvelope(body);
+    if (!parsed.success) {
+      return this.quarantineBody(service, body, "invalid_body", parsed.error, { details: parsed.details });
+    }
+
+    const { event: externalType, id: externalId, occurred_at: occurredAt, data } = parsed.envelope;
+    const context = { externalEventId: externalId, externalEventType: externalType };
+
+    // Systems redeliver callbacks; the external ID identifies a repeat
+    const idempotencyKey = externalId ? `inbound:${service}:${externalId}` : undefined;
+    if (idempotencyKey && (await this.ledger.has(idempotencyKey, INBOUND_LEDGER_ID))) {
+      return { status: "duplicate", externalEventId: externalId! };
+    }
+
+    const inboundRoute = INBOUND_ROUTES[service][externalType];
+    if (!inboundRoute) {
+      return this.quarantineBody(service, body, "unknown_event", `Unknown ${service} event: ${externalType}`, context);
+    }
+
+    let payload: Record<string, unknown>;
+    try {
+      payload = inboundRoute.toPayload(toInternalEntity(inboundRoute.entity, data) as never);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Failed to convert payload";
+      return this.quarantineBody(service, body, "invalid_payload", message, context);
+    }
+
+    const details = validateEventPayload(inboundRoute.eventType, payload);
+    if (details.length > 0) {
+      return this.quarantineBody(service, body, "invalid_payload", `Invalid ${inboundRoute.eventType} payload`, {
+        ...context,
+        details,
+      });
+    }
+
+    const eventBus = getEventBus();
+    const event = eventBus.createEvent(inboundRoute.eventType, payload as EventPayload<EventType>, service);
+    event.metadata = { ...event.metadata, externalEventId: externalId, externalEventType: externalType, occurredAt };
+
+    // Idempotent handlers also skip the key, covering repeats that arrive while this one is publishing
+    await eventBus.publish(event, { origin: "inbound", idempotencyKey });
+    if (idempotencyKey) {
+      await this.ledger.record(idempotencyKey, INBOUND_LEDGER_ID);
+    }
+
+    return { status: "published", event };
+  }
+
+  /**
+   * List quarantined payloads, newest first
+   */
+  async listQuarantined(service?: string): Promise<QuarantinedPayload[]> {
+    const entries = await this.quarantine.list();
+    return entries.filter((entry) => !service || entry.service === service).reverse();
+  }
+
+  /**
+   * Remove one quarantined payload
+   */
+  async removeQuarantined(entryId: string): Promise<boolean> {
+    const entries = await this.quarantine.list();
+    if (!entries.some((entry) => entry.id === entryId)) return false;
+    await this.quarantine.remove(entryId);
+    return true;
+  }
+
+  /**
+   * Remove all quarantined payloads
+   */
+  async clearQuarantined(): Promise<void> {
+    await this.quarantine.clear();
+  }
+
+  private getSecret(service: InboundService): string | undefined {
+    return (
+      this.secrets[service] ||
+      process.env[`INBOUND_WEBHOOK_SECRET_${service.toUpperCase()}`] ||
+      process.env.INBOUND_WEBHOOK_SECRET
+    );
+  }
+
+  private getFormat(service: InboundService): InboundWebhookFormat {
+    const format =
+      this.formats[service] ||
+      process.env[`INBOUND_WEBHOOK_FORMAT_${service.toUpperCase()}`] ||
+      process.env.INBOUND_WEBHOOK_FORMAT;
+    return format === "cloudevents" ? "cloudevents" : "envelope";
+  }
+
+  private async quarantineBody(
+    service: InboundService,
+    body: string,
+    reason: QuarantinedPayload["reason"],
+    error: string,
+    extra?: { externalEventId?: string; externalEventType?: string; details?: EventValidationIssue[] }
+  ): Promise<InboundWebhookResult> {
+    const entry: QuarantinedPayload = {
+      id: `quarantine-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      service,
+      reason,
+      error,
+      ...extra,
+      body,
+      receivedAt: new Date().toISOString(),
+    };
+    await this.quarantine.add(entry);
+    console.warn(`Quarantined inbound ${service} webhook ${entry.id}: ${error}`);
+
+    return { status: "quarantined", entry };
+  }
+}
+
+/**
+ * Check whether a value names an inbound service
+ */
+export function isInboundService(value: string): value is InboundService {
+  return (INBOUND_SERVICES as readonly string[]).includes(value);
+}
+
+/**
+ * Parse an inbound envelope body
+ */
+function readEnvelope(body: string): InboundEnvelopeResult {
+  let json: unknown;
+  try {
+    json = JSON.parse(body);
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : "Invalid JSON" };
+  }
+
+  const envelope = InboundEnvelopeSchema.safeParse(json);
+  if (!envelope.success) {
+    const details = envelope.error.issues.map((issue) => ({ path: issue.path.join("."), message: issue.message }));
+    return { success: false, error: "Body is not an inbound event envelope", details };
+  }
+  return { success: true, envelope: envelope.data };
+}
+
+/**
+ * Read a CloudEvent, in either HTTP mode, as an inbound envelope
+ */
+function readCloudEventEnvelope(headers: Headers, body: string): InboundEnvelopeResult {
+  const decoded = decodeCloudEventHttp(headers, body);
+  if (!decoded.success) {
+    return { success: false, error: "Body is not a CloudEvent", details: decoded.issues };
+  }
+
+  const { type, id, time, data } = decoded.cloudEvent;
+  if (data === null || typeof data !== "object" || Array.isArray(data)) {
+    return { success: false, error: "CloudEvent data is not a JSON object" };
+  }
+
+  return {
+    success: true,
+    envelope: {
+      event: type,
+      id,
+      occurred_at: time ? new Date(time).toISOString() : undefined,
+      data: data as Record<string, unknown>,
+    },
+  };
+}
+
+/**
+ * Convert a snake_case external entity with its registered mapper
+ * Identity-mapped entities already share the internal shape, so only their keys are converted
+ */
+function toInternalEntity(entity: MapperKey, data: Record<string, unknown>): unknown {
+  const mapper = mapperRegistry[entity];
+  if (mapper instanceof IdentityMapper) {
+    return mapper.toTarget(transformUtils.keysToCamel(data) as never);
+  }
+  return mapper.toTarget(data as never);
+}
+
+// Singleton instance
+let inboundReceiverInstance: InboundWebhookReceiver | null = null;
+
+export function getInboundWebhookReceiver(): InboundWebhookReceiver {
+  if (!inboundReceiverInstance) {
+    inboundReceiverInstance = new InboundWebhookReceiver(createQuarantineStore(), {}, {}, getProcessedKeyLedger());
+  }
+  return inboundReceiverInstance;
+}
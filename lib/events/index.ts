@@ -1,9 +1,54 @@
 // Event bus
 export * from "./event-bus";
 
+// Event store
+export * from "./event-store";
+
+// JSON snapshot and JSON Lines file persistence shared by the file-backed stores
+export * from "./file-stores";
+
+// Subscription patterns
+export * from "./patterns";
+
+// Event validation
+export * from "./validation";
+
+// Event bus middleware
+export * from "./middleware";
+
+// Schema version upcasters
+export * from "./upcasters";
+
 // Webhook handlers
 export * from "./webhook-handlers";
 
+// Webhook filter expressions and payload templates
+export * from "./filter-expression";
+export * from "./webhook-payloads";
+
+// CloudEvents 1.0 mapping
+export * from "./cloudevents";
+
+// Historical event redelivery to a webhook
+export * from "./webhook-redelivery";
+
+// Webhook registration and delivery persistence
+export * from "./webhook-store";
+export * from "./webhook-delivery-store";
+
+// Inbound webhooks from external systems
+export * from "./inbound-webhooks";
+export * from "./quarantine-store";
+
 // Event queue
 export * from "./queue";
 
+
+// Event queue persistence
+export * from "./queue-store";
+
+// Cron expressions for recurring schedules
+export * from "./cron";
+
+// Idempotent handler ledger
+export * from "./idempotency";
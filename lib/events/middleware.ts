@@ -0,0 +1,75 @@
+import { Event, EventMiddleware } from "@/types/events";
+
+/**
+ * Add metadata fields (e.g. tenant, actor) to every event
+ */
+export function enrichMetadata(
+  fields: Record<string, unknown> | ((event: Event) => Record<string, unknown>)
+): EventMiddleware {
+  return async function enrichMetadata(context, next) {
+    const extra = typeof fields === "function" ? fields(context.event) : fields;
+    context.event = {
+      ...context.event,
+      metadata: { ...extra, ...context.event.metadata },
+    };
+    await next();
+  };
+}
+
+/**
+ * Replace payload fields (e.g. email, phone) before events are stored or delivered
+ * Fields are matched by name at any depth, so before/after snapshots are redacted too
+ */
+export function redactPayloadFields(fields: string[], replacement: string = "[REDACTED]"): EventMiddleware {
+  const keys = new Set(fields);
+
+  const redact = (value: unknown): unknown => {
+    if (Array.isArray(value)) return value.map(redact);
+    if (value && typeof value === "object") {
+      return Object.fromEntries(
+        Object.entries(value as Record<string, unknown>).map(([key, inner]) => [
+          key,
+          keys.has(key) ? replacement : redact(inner),
+        ])
+      );
+    }
+    return value;
+  };
+
+  return async function redactPayloadFields(context, next) {
+    context.event = {
+      ...context.event,
+      payload: redact(context.event.payload) as Event["payload"],
+    };
+    await next();
+  };
+}
+
+/**
+ * Log handlers that take longer than a threshold
+ */
+export function logSlowHandlers(thresholdMs: number = 1000): EventMiddleware {
+  return async function logSlowHandlers(context, next) {
+    await next();
+    for (const result of context.results) {
+      if (result.durationMs >= thresholdMs) {
+        console.warn(
+          `Slow event handler ${result.subscriptionId} for ${context.event.type}: ${result.durationMs}ms`
+        );
+      }
+    }
+  };
+}
+
+/**
+ * Veto events matching a predicate so they are neither stored nor delivered
+ */
+export function vetoWhen(predicate: (event: Event) => boolean, reason: string): EventMiddleware {
+  return async function vetoWhen(context, next) {
+    if (predicate(context.event)) {
+      context.veto(reason);
+      return;
+    }
+    await next();
+  };
+}
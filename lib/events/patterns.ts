@@ -0,0 +1,106 @@
+import { z } from "zod";
+import { EventPattern, EventType, EventTypeSchema } from "@/types/events";
+
+/**
+ * All known event types
+ */
+const KNOWN_EVENT_TYPES: readonly EventType[] = EventTypeSchema.options;
+
+/**
+ * Compiled pattern cache
+ */
+const compiledPatterns: Map<string, RegExp> = new Map();
+
+/**
+ * Check whether a pattern contains wildcard segments
+ */
+export function isWildcardPattern(pattern: string): boolean {
+  return pattern.split(".").some((segment) => segment === "*" || segment === "**");
+}
+
+/**
+ * Compile an event pattern to a regular expression
+ *
+ * - `*` on its own matches every event type
+ * - `*` as a segment matches exactly one segment (`ticket.*` matches `ticket.closed`)
+ * - `**` as a segment matches one or more segments (`h2r.**` matches `h2r.requisition.created`)
+ */
+export function compileEventPattern(pattern: string): RegExp {
+  const cached = compiledPatterns.get(pattern);
+  if (cached) return cached;
+
+  let regex: RegExp;
+  if (pattern === "*" || pattern === "**") {
+    regex = /^.+$/;
+  } else {
+    const source = pattern
+      .split(".")
+      .map((segment) => {
+        if (segment === "**") return "[^.]+(?:\\.[^.]+)*";
+        if (segment === "*") return "[^.]+";
+        return segment.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+      })
+      .join("\\.");
+    regex = new RegExp(`^${source}$`);
+  }
+
+  compiledPatterns.set(pattern, regex);
+  return regex;
+}
+
+/**
+ * Check whether an event type matches a pattern
+ */
+export function matchesEventPattern(eventType: EventType, pattern: EventPattern): boolean {
+  if (!isWildcardPattern(pattern)) {
+    return eventType === pattern;
+  }
+  return compileEventPattern(pattern).test(eventType);
+}
+
+/**
+ * Check whether an event type matches a pattern or any pattern in a list
+ */
+export function matchesAnyEventPattern(eventType: EventType, patterns: EventPattern | EventPattern[]): boolean {
+  if (Array.isArray(patterns)) {
+    return patterns.some((pattern) => matchesEventPattern(eventType, pattern));
+  }
+  return matchesEventPattern(eventType, patterns);
+}
+
+/**
+ * Expand a pattern to the known event types it matches
+ */
+export function expandEventPattern(pattern: EventPattern): EventType[] {
+  return KNOWN_EVENT_TYPES.filter((type) => matchesEventPattern(type, pattern));
+}
+
+/**
+ * Validate a pattern: segments must be non-empty and it must match at least one known event type
+ */
+export function isValidEventPattern(pattern: string): pattern is EventPattern {
+  if (!pattern || pattern.split(".").some((segment) => segment.length === 0)) {
+    return false;
+  }
+  return expandEventPattern(pattern as EventPattern).length > 0;
+}
+
+/**
+ * Event pattern schema, validated against EventTypeSchema
+ */
+export const EventPatternSchema = z.custom<EventPattern>(
+  (value) => typeof value === "string" && isValidEventPattern(value),
+  { message: "Pattern does not match any known event type" }
+);
+
+/**
+ * Validate one or more patterns, throwing on the first invalid one
+ */
+export function assertValidEventPatterns(patterns: EventPattern | EventPattern[]): void {
+  const list = Array.isArray(patterns) ? patterns : [patterns];
+  for (const pattern of list) {
+    if (!isValidEventPattern(pattern)) {
+      throw new Error(`Invalid event pattern "${pattern}": does not match any known event type`);
+    }
+  }
+}
@@ -0,0 +1,83 @@
+import path from "path";
+import { IQuarantineStore, QuarantinedPayload, QuarantinedPayloadSchema } from "@/types/events";
+import { JsonSnapshotFile } from "./file-stores";
+
+// Oldest entries are dropped beyond this many
+const MAX_QUARANTINE_SIZE = 1000;
+
+/**
+ * In-memory quarantine store
+ */
+export class InMemoryQuarantineStore implements IQuarantineStore {
+  protected entries: QuarantinedPayload[] = [];
+
+  async list(): Promise<QuarantinedPayload[]> {
+    return [...this.entries];
+  }
+
+  async add(entry: QuarantinedPayload): Promise<void> {
+    this.entries.push(entry);
+    if (this.entries.length > MAX_QUARANTINE_SIZE) {
+      this.entries.splice(0, this.entries.length - MAX_QUARANTINE_SIZE);
+    }
+  }
+
+  async remove(entryId: string): Promise<void> {
+    this.entries = this.entries.filter((entry) => entry.id !== entryId);
+  }
+
+  async clear(): Promise<void> {
+    this.entries = [];
+  }
+}
+
+/**
+ * File-backed quarantine store
+ * The capped set is rewritten on every change
+ */
+export class FileQuarantineStore extends InMemoryQuarantineStore {
+  private file: JsonSnapshotFile<QuarantinedPayload>;
+
+  constructor(filePath: string) {
+    super();
+    this.file = new JsonSnapshotFile(filePath, QuarantinedPayloadSchema, (entries) => {
+      this.entries = entries;
+    });
+  }
+
+  async list(): Promise<QuarantinedPayload[]> {
+    await this.file.ensureLoaded();
+    return super.list();
+  }
+
+  async add(entry: QuarantinedPayload): Promise<void> {
+    await this.file.ensureLoaded();
+    await super.add(entry);
+    await this.file.write(this.entries);
+  }
+
+  async remove(entryId: string): Promise<void> {
+    await this.file.ensureLoaded();
+    await super.remove(entryId);
+    await this.file.write(this.entries);
+  }
+
+  async clear(): Promise<void> {
+    await this.file.ensureLoaded();
+    await super.clear();
+    await this.file.write(this.entries);
+  }
+}
+
+/**
+ * Create the configured quarantine store
+ * EVENT_STORE=memory keeps entries in memory only; otherwise they are written to QUARANTINE_STORE_PATH
+ */
+export function createQuarantineStore(): IQuarantineStore {
+  if (process.env.EVENT_STORE === "memory") {
+    return new InMemoryQuarantineStore();
+  }
+  return new FileQuarantineStore(
+    process.env.QUARANTINE_STORE_PATH || path.join(process.cwd(), ".data", "inbound-quarantine.json")
+  );
+}
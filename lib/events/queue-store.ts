@@ -0,0 +1,154 @@
+import path from "path";
+import { z } from "zod";
+import {
+  IQueueStore,
+  QueueMessage,
+  QueueMessageSchema,
+  RecurringSchedule,
+  RecurringScheduleSchema,
+} from "@/types/events";
+import { JsonLinesFile } from "./file-stores";
+
+/**
+ * In-memory queue store
+ * Messages are lost on restart; used for tests and EVENT_STORE=memory
+ */
+export class InMemoryQueueStore implements IQueueStore {
+  protected messages: Map<string, QueueMessage> = new Map();
+  protected schedules: Map<string, RecurringSchedule> = new Map();
+
+  async load(): Promise<QueueMessage[]> {
+    return Array.from(this.messages.values());
+  }
+
+  async save(message: QueueMessage): Promise<void> {
+    this.messages.set(message.id, { ...message });
+  }
+
+  async remove(messageId: string): Promise<void> {
+    this.messages.delete(messageId);
+  }
+
+  /**
+   * Clear messages; schedule definitions are kept
+   */
+  async clear(): Promise<void> {
+    this.messages.clear();
+  }
+
+  async loadSchedules(): Promise<RecurringSchedule[]> {
+    return Array.from(this.schedules.values());
+  }
+
+  async saveSchedule(schedule: RecurringSchedule): Promise<void> {
+    this.schedules.set(schedule.id, { ...schedule });
+  }
+
+  async removeSchedule(scheduleId: string): Promise<void> {
+    this.schedules.delete(scheduleId);
+  }
+}
+
+/**
+ * Journal record: a full message or schedule snapshot, or a removal
+ */
+const QueueJournalRecordSchema = z.discriminatedUnion("op", [
+  z.object({ op: z.literal("put"), message: QueueMessageSchema }),
+  z.object({ op: z.literal("remove"), id: z.string() }),
+  z.object({ op: z.literal("put_schedule"), schedule: RecurringScheduleSchema }),
+  z.object({ op: z.literal("remove_schedule"), id: z.string() }),
+]);
+type QueueJournalRecord = z.infer<typeof QueueJournalRecordSchema>;
+
+/**
+ * File-backed queue store
+ * Appends one JSON record per change and compacts the journal to live records on load
+ * and whenever superseded records outnumber live ones
+ */
+export class FileQueueStore extends InMemoryQueueStore {
+  private journal: JsonLinesFile<QueueJournalRecord>;
+
+  constructor(filePath: string, minCompactionSize: number = 1000) {
+    super();
+    this.journal = new JsonLinesFile(filePath, {
+      schema: QueueJournalRecordSchema,
+      apply: (record) => this.applyRecord(record),
+      snapshot: () => [
+        ...Array.from(this.schedules.values()).map((schedule) => ({ op: "put_schedule" as const, schedule })),
+        ...Array.from(this.messages.values()).map((message) => ({ op: "put" as const, message })),
+      ],
+      size: () => this.messages.size + this.schedules.size,
+      minCompactionSize,
+    });
+  }
+
+  async load(): Promise<QueueMessage[]> {
+    await this.journal.ensureLoaded();
+    return super.load();
+  }
+
+  async save(message: QueueMessage): Promise<void> {
+    await this.journal.ensureLoaded();
+    await super.save(message);
+    await this.journal.append({ op: "put", message });
+  }
+
+  async remove(messageId: string): Promise<void> {
+    await this.journal.ensureLoaded();
+    if (!this.messages.has(messageId)) return;
+    await super.remove(messageId);
+    await this.journal.append({ op: "remove", id: messageId });
+  }
+
+  async clear(): Promise<void> {
+    await this.journal.ensureLoaded();
+    await super.clear();
+    await this.journal.compact();
+  }
+
+  async loadSchedules(): Promise<RecurringSchedule[]> {
+    await this.journal.ensureLoaded();
+    return super.loadSchedules();
+  }
+
+  async saveSchedule(schedule: RecurringSchedule): Promise<void> {
+    await this.journal.ensureLoaded();
+    await super.saveSchedule(schedule);
+    await this.journal.append({ op: "put_schedule", schedule });
+  }
+
+  async removeSchedule(scheduleId: string): Promise<void> {
+    await this.journal.ensureLoaded();
+    if (!this.schedules.has(scheduleId)) return;
+    await super.removeSchedule(scheduleId);
+    await this.journal.append({ op: "remove_schedule", id: scheduleId });
+  }
+
+  private applyRecord(record: QueueJournalRecord): void {
+    switch (record.op) {
+      case "put":
+        this.messages.set(record.message.id, record.message);
+        break;
+      case "remove":
+        this.messages.delete(record.id);
+        break;
+      case "put_schedule":
+        this.schedules.set(record.schedule.id, record.schedule);
+        break;
+      case "remove_schedule":
+        this.schedules.delete(record.id);
+        break;
+    }
+  }
+}
+
+/**
+ * Create the configured queue store
+ * EVENT_STORE=memory keeps messages in memory only; otherwise they are written to QUEUE_STORE_PATH
+ */
+export function createQueueStore(): IQueueStore {
+  if (process.env.EVENT_STORE === "memory") {
+    return new InMemoryQueueStore();
+  }
+  return new FileQueueStore(process.env.QUEUE_STORE_PATH || path.join(process.cwd(), ".data", "queue.jsonl"));
+}
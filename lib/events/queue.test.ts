@@ -0,0 +1,151 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { QueueMessage, RecurringSchedule } from "@/types/events";
+import { getEventBus } from "./event-bus";
+import { EventQueue } from "./queue";
+import { InMemoryQueueStore } from "./queue-store";
+
+// A yearly run that fell due before the restore
+const RUN = new Date(Date.UTC(new Date().getUTCFullYear(), 0, 1)).toISOString();
+
+function createSchedule(): RecurringSchedule {
+  return {
+    id: "schedule-1",
+    name: "New year report",
+    cron: "0 0 1 1 *",
+    timezone: "UTC",
+    eventType: "ticket.created",
+    payload: { ticketId: "report", category: "reporting" },
+    source: "scheduler",
+    priority: 0,
+    paused: false,
+    catchUp: "all",
+    nextRunAt: RUN,
+    createdAt: RUN,
+    updatedAt: RUN,
+  };
+}
+
+function createRunMessage(enqueuedAt: string): QueueMessage {
+  const event = getEventBus().createEvent("ticket.created", { ticketId: "report", category: "reporting" }, "scheduler");
+  return {
+    id: "msg-run",
+    event,
+    priority: 0,
+    retryCount: 0,
+    maxRetries: 3,
+    status: "pending",
+    idempotencyKey: `schedule:schedule-1:${RUN}`,
+    enqueuedAt,
+    sequence: 0,
+  };
+}
+
+async function restoreQueue(store: InMemoryQueueStore): Promise<EventQueue> {
+  const queue = new EventQueue({}, store);
+  // Keep restored messages pending so they can be inspected
+  queue.pause();
+  await queue.restore();
+  return queue;
+}
+
+describe("EventQueue restore", () => {
+  it("enqueues a missed schedule run", async () => {
+    const store = new InMemoryQueueStore();
+    await store.saveSchedule(createSchedule());
+
+    const queue = await restoreQueue(store);
+
+    const pending = queue.getPendingMessages();
+    expect(pending).toHaveLength(1);
+    expect(pending[0].idempotencyKey).toBe(`schedule:schedule-1:${RUN}`);
+    expect(new Date(queue.getSchedule("schedule-1")!.nextRunAt!).getTime()).toBeGreaterThan(Date.now());
+  });
+
+  it("does not enqueue a run again when its message was persisted before the schedule update", async () => {
+    const store = new InMemoryQueueStore();
+    await store.saveSchedule(createSchedule());
+    await store.save(createRunMessage(new Date().toISOString()));
+
+    const queue = await restoreQueue(store);
+
+    expect(queue.getPendingMessages().map((message) => message.id)).toEqual(["msg-run"]);
+    expect(queue.getStats().deduplicated).toBe(1);
+  });
+
+  it("does not enqueue a still-queued run again after downtime longer than the dedup window", async () => {
+    const store = new InMemoryQueueStore();
+    await store.saveSchedule(createSchedule());
+    await store.save(createRunMessage(new Date(Date.now() - 60 * 60 * 1000).toISOString()));
+
+    const queue = await restoreQueue(store);
+
+    expect(queue.getPendingMessages().map((message) => message.id)).toEqual(["msg-run"]);
+  });
+});
+
+describe("EventQueue processing timeout", () => {
+  const subscriptionIds = ["queue-test-ack", "queue-test-slow"];
+  const source = "queue-timeout-test";
+
+  afterEach(() => {
+    subscriptionIds.forEach((id) => getEventBus().unsubscribe(id));
+  });
+
+  /**
+   * One handler acks at once; the other outlives the processing timeout on its first call
+   */
+  function subscribeHandlers(slowMs: number) {
+    const eventBus = getEventBus();
+    const calls = { ack: [] as number[], slow: [] as number[] };
+    eventBus.subscribe({
+      id: "queue-test-ack",
+      eventType: "ticket.created",
+      filter: (event) => event.source === source,
+      handler: async (_, context) => {
+        calls.ack.push(context.offset);
+      },
+    });
+    eventBus.subscribe({
+      id: "queue-test-slow",
+      eventType: "ticket.created",
+      filter: (event) => event.source === source,
+      handler: async (_, context) => {
+        calls.slow.push(context.offset);
+        if (calls.slow.length === 1) await new Promise((resolve) => setTimeout(resolve, slowMs));
+      },
+    });
+    return calls;
+  }
+
+  it("retries a timed-out message as a redelivery of its stored offset to the handlers that had not acked", async () => {
+    const eventBus = getEventBus();
+    const calls = subscribeHandlers(100);
+
+    // The retry is due while the slow handler is still running
+    const queue = new EventQueue({ processingTimeout: 20, retryDelay: 5 }, new InMemoryQueueStore());
+    const event = eventBus.createEvent("ticket.created", { ticketId: "slow", category: "support" }, source);
+    queue.enqueue(event);
+
+    await expect.poll(() => queue.getStats().completed, { timeout: 2000 }).toBe(1);
+
+    expect(calls.ack).toHaveLength(1);
+    expect(calls.slow).toHaveLength(2);
+    expect(calls.slow[1]).toBe(calls.slow[0]);
+    const stored = await eventBus.readStored({ eventType: "ticket.created" });
+    expect(stored.filter((entry) => entry.event.id === event.id)).toHaveLength(1);
+  });
+
+  it("does not rerun a timed-out handler that succeeds before the retry", async () => {
+    const eventBus = getEventBus();
+    const calls = subscribeHandlers(50);
+
+    // The retry is due about 200ms after the timeout, once the slow handler has finished
+    const queue = new EventQueue({ processingTimeout: 20, retryDelay: 100 }, new InMemoryQueueStore());
+    queue.enqueue(eventBus.createEvent("ticket.created", { ticketId: "slow", category: "support" }, source));
+
+    await expect.poll(() => queue.getStats().completed, { timeout: 2000 }).toBe(1);
+
+    expect(calls.ack).toHaveLength(1);
+    expect(calls.slow).toHaveLength(1);
+  });
+});
@@ -1,5 +1,19 @@
-import { Event, QueueMessage } from "@/types/events";
-import { getEventBus } from "./event-bus";
+import { PaginatedResponse, PaginationParams } from "@/types";
+import {
+  Event,
+  EventPayload,
+  EventType,
+  HandlerResult,
+  IQueueStore,
+  QueueMessage,
+  RecurringSchedule,
+  RecurringScheduleInput,
+} from "@/types/events";
+import { getCronRunsBetween, getLatestCronRuns, getNextCronRun, isValidTimeZone, parseCronExpression } from "./cron";
+import { EventDispatchError, getEventBus } from "./event-bus";
+import { BinaryHeap } from "./heap";
+import { createQueueStore, InMemoryQueueStore } from "./queue-store";
+import { EventValidationError, validateEventPayload } from "./validation";
 
 /**
  * Queue processing options
@@ -9,8 +23,94 @@ interface QueueOptions {
   retryDelay: number;
   maxRetries: number;
   processingTimeout: number;
+  // Most recent missed runs enqueued per schedule when catching up
+  maxCatchUpRuns: number;
+  // How long an idempotency key blocks re-enqueueing the same logical event
+  dedupWindowMs: number;
+  // Derive a partition key for messages enqueued without one
+  partitionKeyResolver: (event: Event) => string | undefined;
+  // Optional per-event-type concurrency and rate limits
+  typeLimits: Partial<Record<EventType, EventTypeLimit>>;
+  // Waiting this long raises a message's effective priority by one, so low priorities cannot starve; 0 disables aging
+  priorityAgingMs: number;
 }
 
+/**
+ * Concurrency and rate limit for one event type
+ */
+export interface EventTypeLimit {
+  // Messages of this type processing at once
+  maxConcurrent?: number;
+  // Messages of this type started per interval
+  maxPerInterval?: number;
+  intervalMs?: number;
+}
+
+/**
+ * Per-message enqueue options
+ */
+export interface EnqueueOptions {
+  // Producer-supplied key; repeats inside the dedup window return the original message ID
+  idempotencyKey?: string;
+  // Overrides the key derived by the partition key resolver
+  partitionKey?: string;
+}
+
+/**
+ * Default partition key: the ticket, else the employee, the event is about
+ */
+export function derivePartitionKey(event: Event): string | undefined {
+  const { ticketId, employeeId } = event.payload;
+  if (typeof ticketId === "string") return `ticket:${ticketId}`;
+  if (typeof employeeId === "string") return `employee:${employeeId}`;
+  return undefined;
+}
+
+// A run later than this counts as missed rather than on time
+const SCHEDULE_GRACE_MS = 60000;
+// Re-check schedules at least this often so long sleeps survive clock changes
+const MAX_SCHEDULE_TIMER_MS = 60 * 60 * 1000;
+
+/**
+ * Message waiting in the delay heap until its scheduled time
+ */
+interface DelayedEntry {
+  message: QueueMessage;
+  dueAt: number;
+}
+
+/**
+ * Due message in a ready heap
+ * rank = priority - readyAt / priorityAgingMs; every waiting message ages at the same rate,
+ * so comparing ranks once is equivalent to comparing aged priorities at any later time
+ */
+interface ReadyEntry {
+  message: QueueMessage;
+  rank: number;
+}
+
+/**
+ * Messages sharing a partition key
+ * At most one message (the active one) is ready, processing or awaiting retry at a time
+ */
+interface PartitionState {
+  activeId: string | null;
+  waiting: BinaryHeap<QueueMessage>;
+}
+
+/**
+ * Handlers of the current delivery attempt that have not succeeded yet
+ * Unknown until the bus has stored the event and matched its subscriptions
+ */
+interface AttemptProgress {
+  pending: Set<string> | undefined;
+  timedOut: boolean;
+}
+
+const sequenceOf = (message: QueueMessage): number => message.sequence ?? 0;
+const compareReady = (a: ReadyEntry, b: ReadyEntry): number =>
+  b.rank - a.rank || sequenceOf(a.message) - sequenceOf(b.message);
+
 /**
  * Queue statistics
  */
@@ -20,33 +120,89 @@ interface QueueStats {
   completed: number;
   failed: number;
   deadLetter: number;
+  deduplicated: number;
+  paused: boolean;
 }
 
 /**
- * In-memory event queue for async processing
+ * Event queue for async processing
+ * Every state change is written to a pluggable queue store so work survives a restart
+ * Due messages sit in per-event-type priority heaps and scheduled ones in a delay heap;
+ * a single timer wakes the queue when the next message is due, so nothing is polled
  */
 export class EventQueue {
-  private queue: QueueMessage[] = [];
+  // Pending and processing messages by ID
+  private messages: Map<string, QueueMessage> = new Map();
   private processing: Set<string> = new Set();
-  private deadLetter: QueueMessage[] = [];
+  private deadLetter: Map<string, QueueMessage> = new Map();
+  private delayed = new BinaryHeap<DelayedEntry>(
+    (a, b) => a.dueAt - b.dueAt || sequenceOf(a.message) - sequenceOf(b.message)
+  );
+  private ready: Map<EventType, BinaryHeap<ReadyEntry>> = new Map();
+  private partitions: Map<string, PartitionState> = new Map();
+  private runningByType: Map<EventType, number> = new Map();
+  private wakeTimer: ReturnType<typeof setTimeout> | null = null;
+  private wakeAt: number | null = null;
   private completedCount: number = 0;
   private failedCount: number = 0;
-  private isProcessing: boolean = false;
+  private deduplicatedCount: number = 0;
+  // Idempotency key -> message ID and when the key stops blocking duplicates
+  private recentKeys: Map<string, { messageId: string; expiresAt: number }> = new Map();
+  private nextSequence: number = 0;
+  // Start times per event type inside the current rate limit window
+  private typeStarts: Map<EventType, number[]> = new Map();
+  // Set by pause(); new messages are still accepted but not processed until resume()
+  private paused: boolean = false;
   private options: QueueOptions;
+  private restorePromise: Promise<void> | null = null;
+  private schedules: Map<string, RecurringSchedule> = new Map();
+  private scheduleTimer: ReturnType<typeof setTimeout> | null = null;
 
-  constructor(options?: Partial<QueueOptions>) {
+  constructor(
+    options?: Partial<QueueOptions>,
+    private store: IQueueStore = new InMemoryQueueStore()
+  ) {
     this.options = {
       maxConcurrent: options?.maxConcurrent || 5,
       retryDelay: options?.retryDelay || 1000,
       maxRetries: options?.maxRetries || 3,
       processingTimeout: options?.processingTimeout || 30000,
+      maxCatchUpRuns: options?.maxCatchUpRuns || 100,
+      dedupWindowMs: options?.dedupWindowMs || 5 * 60 * 1000,
+      partitionKeyResolver: options?.partitionKeyResolver || derivePartitionKey,
+      typeLimits: options?.typeLimits || {},
+      priorityAgingMs: options?.priorityAgingMs ?? 10000,
     };
   }
 
+  /**
+   * Restore persisted messages once and start processing them
+   * Messages that were processing when the process died go back to pending
+   */
+  restore(): Promise<void> {
+    if (!this.restorePromise) {
+      this.restorePromise = this.loadFromStore();
+    }
+    return this.restorePromise;
+  }
+
   /**
    * Enqueue an event for processing
+   * With an idempotency key seen inside the dedup window, the event is dropped and the
+   * original message ID is returned
+   * Await restore() first: a message enqueued earlier could be ordered ahead of restored messages
+   * in its partition and miss their idempotency keys
    */
-  enqueue(event: Event, priority: number = 0, scheduledAt?: string): string {
+  enqueue(event: Event, priority: number = 0, scheduledAt?: string, options?: EnqueueOptions): string {
+    const idempotencyKey = options?.idempotencyKey;
+    if (idempotencyKey) {
+      const existing = this.getMessageIdForKey(idempotencyKey);
+      if (existing) {
+        this.deduplicatedCount++;
+        return existing;
+      }
+    }
+
     const message: QueueMessage = {
       id: this.generateId(),
       event,
@@ -55,20 +211,16 @@ export class EventQueue {
       maxRetries: this.options.maxRetries,
       scheduledAt,
       status: "pending",
+      idempotencyKey,
+      enqueuedAt: new Date().toISOString(),
+      partitionKey: options?.partitionKey || this.options.partitionKeyResolver(event),
+      sequence: this.nextSequence++,
     };
 
-    // Insert in priority order (higher priority first)
-    const insertIndex = this.queue.findIndex((m) => m.priority < priority);
-    if (insertIndex === -1) {
-      this.queue.push(message);
-    } else {
-      this.queue.splice(insertIndex, 0, message);
-    }
-
-    // Start processing if not already running
-    if (!this.isProcessing) {
-      this.startProcessing();
-    }
+    this.admit(message, Date.now());
+    this.rememberKey(message);
+    this.persist(message);
+    this.pump();
 
     return message.id;
   }
@@ -76,9 +228,121 @@ export class EventQueue {
   /**
    * Schedule an event for later processing
    */
-  schedule(event: Event, delayMs: number, priority: number = 0): string {
+  schedule(event: Event, delayMs: number, priority: number = 0, options?: EnqueueOptions): string {
     const scheduledAt = new Date(Date.now() + delayMs).toISOString();
-    return this.enqueue(event, priority, scheduledAt);
+    return this.enqueue(event, priority, scheduledAt, options);
+  }
+
+  /**
+   * Get the message enqueued with an idempotency key, if the key is inside the dedup window
+   */
+  getMessageIdForKey(idempotencyKey: string): string | undefined {
+    const entry = this.recentKeys.get(idempotencyKey);
+    if (!entry) return undefined;
+    if (entry.expiresAt <= Date.now()) {
+      this.recentKeys.delete(idempotencyKey);
+      return undefined;
+    }
+    return entry.messageId;
+  }
+
+  /**
+   * Add a recurring schedule that enqueues an event on a cron expression
+   * Await restore() first, as with enqueue
+   * Throws on an invalid cron expression or time zone, and EventValidationError on an invalid payload
+   */
+  addSchedule(input: RecurringScheduleInput): RecurringSchedule {
+    const timezone = input.timezone || "UTC";
+    if (!isValidTimeZone(timezone)) {
+      throw new Error(`Unknown time zone: ${timezone}`);
+    }
+    const cron = parseCronExpression(input.cron);
+    const issues = validateEventPayload(input.eventType, input.payload);
+    if (issues.length > 0) {
+      throw new EventValidationError(input.eventType, issues);
+    }
+
+    const now = new Date();
+    const schedule: RecurringSchedule = {
+      id: this.generateId("sched"),
+      name: input.name,
+      cron: input.cron,
+      timezone,
+      eventType: input.eventType,
+      payload: input.payload,
+      source: input.source || "scheduler",
+      priority: input.priority ?? 0,
+      paused: input.paused ?? false,
+      catchUp: input.catchUp || "all",
+      nextRunAt: getNextCronRun(cron, now, timezone)?.toISOString(),
+      createdAt: now.toISOString(),
+      updatedAt: now.toISOString(),
+    };
+
+    this.schedules.set(schedule.id, schedule);
+    this.persistSchedule(schedule);
+    this.armScheduleTimer();
+
+    return schedule;
+  }
+
+  /**
+   * Get all recurring schedules
+   */
+  listSchedules(): RecurringSchedule[] {
+    return Array.from(this.schedules.values());
+  }
+
+  /**
+   * Get a recurring schedule
+   */
+  getSchedule(scheduleId: string): RecurringSchedule | undefined {
+    return this.schedules.get(scheduleId);
+  }
+
+  /**
+   * Pause a recurring schedule
+   */
+  pauseSchedule(scheduleId: string): RecurringSchedule | undefined {
+    return this.updateSchedule(scheduleId, { paused: true });
+  }
+
+  /**
+   * Resume a recurring schedule; runs that fell due while it was paused are skipped
+   */
+  resumeSchedule(scheduleId: string): RecurringSchedule | undefined {
+    const schedule = this.schedules.get(scheduleId);
+    if (!schedule) return undefined;
+
+    return this.updateSchedule(scheduleId, {
+      paused: false,
+      nextRunAt: getNextCronRun(schedule.cron, new Date(), schedule.timezone)?.toISOString(),
+    });
+  }
+
+  /**
+   * Remove a recurring schedule
+   */
+  removeSchedule(scheduleId: string): boolean {
+    if (!this.schedules.delete(scheduleId)) return false;
+
+    this.store.removeSchedule(scheduleId).catch((error) => {
+      console.error(`Failed to remove schedule ${scheduleId}:`, error);
+    });
+    this.armScheduleTimer();
+    return true;
+  }
+
+  /**
+   * Set or remove the concurrency and rate limit for an event type
+   */
+  setTypeLimit(eventType: EventType, limit: EventTypeLimit | null): void {
+    if (limit) {
+      this.options.typeLimits[eventType] = limit;
+    } else {
+      delete this.options.typeLimits[eventType];
+    }
+    this.pump();
   }
 
   /**
@@ -86,43 +350,68 @@ export class EventQueue {
    */
   getStats(): QueueStats {
     return {
-      pending: this.queue.filter((m) => m.status === "pending").length,
+      pending: this.messages.size - this.processing.size,
       processing: this.processing.size,
       completed: this.completedCount,
       failed: this.failedCount,
-      deadLetter: this.deadLetter.length,
+      deadLetter: this.deadLetter.size,
+      deduplicated: this.deduplicatedCount,
+      paused: this.paused,
     };
   }
 
   /**
-   * Get pending messages
+   * Get pending messages, highest priority first
    */
   getPendingMessages(): QueueMessage[] {
-    return this.queue.filter((m) => m.status === "pending");
+    return Array.from(this.messages.values())
+      .filter((m) => m.status === "pending")
+      .sort((a, b) => b.priority - a.priority || sequenceOf(a) - sequenceOf(b));
   }
 
   /**
    * Get dead letter messages
    */
   getDeadLetterMessages(): QueueMessage[] {
-    return [...this.deadLetter];
+    return Array.from(this.deadLetter.values());
+  }
+
+  /**
+   * Get a page of pending or dead letter messages
+   */
+  listMessages(
+    status: "pending" | "dead_letter",
+    pagination: PaginationParams = { page: 1, pageSize: 20 }
+  ): PaginatedResponse<QueueMessage> {
+    const messages = status === "pending" ? this.getPendingMessages() : this.getDeadLetterMessages();
+    const { page, pageSize } = pagination;
+    const start = (page - 1) * pageSize;
+
+    return {
+      data: messages.slice(start, start + pageSize),
+      pagination: {
+        page,
+        pageSize,
+        total: messages.length,
+        totalPages: Math.ceil(messages.length / pageSize),
+      },
+    };
   }
 
   /**
    * Retry a dead letter message
    */
   retryDeadLetter(messageId: string): boolean {
-    const index = this.deadLetter.findIndex((m) => m.id === messageId);
-    if (index === -1) return false;
+    const message = this.deadLetter.get(messageId);
+    if (!message) return false;
 
-    const message = this.deadLetter.splice(index, 1)[0];
+    this.deadLetter.delete(messageId);
     message.status = "pending";
     message.retryCount = 0;
-    this.queue.push(message);
-
-    if (!this.isProcessing) {
-      this.startProcessing();
-    }
+    message.scheduledAt = undefined;
+    this.admit(message, Date.now());
+    this.persist(message);
+    this.pump();
 
     return true;
   }
@@ -131,157 +420,597 @@ export class EventQueue {
    * Clear dead letter queue
    */
   clearDeadLetter(): void {
-    this.deadLetter = [];
+    this.deadLetter.forEach((message) => this.unpersist(message.id));
+    this.deadLetter.clear();
   }
 
   /**
-   * Pause queue processing
+   * Pause queue processing; messages already processing run to completion
    */
   pause(): void {
-    this.isProcessing = false;
+    this.paused = true;
+    this.clearWakeTimer();
   }
 
   /**
    * Resume queue processing
    */
   resume(): void {
-    if (!this.isProcessing) {
-      this.startProcessing();
-    }
+    this.paused = false;
+    this.pump();
+  }
+
+  /**
+   * Check whether processing is paused
+   */
+  isPaused(): boolean {
+    return this.paused;
   }
 
   /**
-   * Clear the queue
+   * Clear pending messages; messages already processing run to completion
    */
   clear(): void {
-    this.queue = [];
-    this.processing.clear();
+    for (const message of this.messages.values()) {
+      if (this.processing.has(message.id)) continue;
+      this.messages.delete(message.id);
+      this.unpersist(message.id);
+    }
+    this.delayed.clear();
+    this.ready.clear();
+
+    // Keep partitions held by in-flight messages so their successors still wait
+    for (const [key, partition] of this.partitions) {
+      partition.waiting.clear();
+      if (!partition.activeId || !this.processing.has(partition.activeId)) {
+        this.partitions.delete(key);
+      }
+    }
+    this.clearWakeTimer();
   }
 
   /**
-   * Start processing the queue
+   * Start as many ready messages as the limits allow, then sleep until the next one is due
    */
-  private async startProcessing(): Promise<void> {
-    if (this.isProcessing) return;
-    this.isProcessing = true;
+  private pump(): void {
+    if (this.paused) return;
 
-    while (this.isProcessing && this.queue.length > 0) {
-      // Process up to maxConcurrent messages
-      const availableSlots = this.options.maxConcurrent - this.processing.size;
-      if (availableSlots <= 0) {
-        await this.delay(100);
-        continue;
+    const now = Date.now();
+    this.releaseDueMessages(now);
+
+    while (this.processing.size < this.options.maxConcurrent) {
+      const message = this.takeNextReady(now);
+      if (!message) break;
+
+      this.runningByType.set(message.event.type, (this.runningByType.get(message.event.type) || 0) + 1);
+      this.recordTypeStart(message.event.type, now);
+      this.processMessage(message);
+    }
+
+    this.armWakeTimer(now);
+  }
+
+  /**
+   * Add a pending message to the delay heap, or make it ready if it is due
+   */
+  private admit(message: QueueMessage, now: number): void {
+    this.messages.set(message.id, message);
+    const dueAt = message.scheduledAt ? new Date(message.scheduledAt).getTime() : now;
+
+    if (dueAt > now) {
+      // A message awaiting retry keeps its partition so later messages cannot overtake it
+      if (message.retryCount > 0 && message.partitionKey) {
+        const partition = this.getPartition(message.partitionKey);
+        if (partition.activeId === null) partition.activeId = message.id;
       }
+      this.delayed.push({ message, dueAt });
+      return;
+    }
+
+    this.makeReady(message, now);
+  }
+
+  /**
+   * Move messages whose scheduled time has passed out of the delay heap
+   */
+  private releaseDueMessages(now: number): void {
+    while (this.delayed.size > 0 && this.delayed.peek()!.dueAt <= now) {
+      const { message } = this.delayed.pop()!;
+      if (this.isPending(message)) {
+        this.makeReady(message, now);
+      }
+    }
+  }
+
+  /**
+   * Queue a due message for processing, behind earlier messages of its partition
+   */
+  private makeReady(message: QueueMessage, now: number): void {
+    if (!message.partitionKey) {
+      this.pushReady(message, now);
+      return;
+    }
+
+    const partition = this.getPartition(message.partitionKey);
+    if (partition.activeId === message.id) {
+      // A retry came due; it already holds the partition
+      this.pushReady(message, now);
+      return;
+    }
+
+    partition.waiting.push(message);
+    this.advancePartition(message.partitionKey, now);
+  }
+
+  private pushReady(message: QueueMessage, now: number): void {
+    const type = message.event.type;
+    let heap = this.ready.get(type);
+    if (!heap) {
+      heap = new BinaryHeap<ReadyEntry>(compareReady);
+      this.ready.set(type, heap);
+    }
+
+    const aging = this.options.priorityAgingMs > 0 ? now / this.options.priorityAgingMs : 0;
+    heap.push({ message, rank: message.priority - aging });
+  }
+
+  /**
+   * Take the best ready message across event types that are within their limits
+   */
+  private takeNextReady(now: number): QueueMessage | undefined {
+    let best: { heap: BinaryHeap<ReadyEntry>; entry: ReadyEntry } | undefined;
 
-      const now = new Date().toISOString();
-      const readyMessages = this.queue
-        .filter(
-          (m) =>
-            m.status === "pending" &&
-            !this.processing.has(m.id) &&
-            (!m.scheduledAt || m.scheduledAt <= now)
-        )
-        .slice(0, availableSlots);
-
-      if (readyMessages.length === 0) {
-        await this.delay(100);
+    for (const [type, heap] of this.ready) {
+      while (heap.size > 0 && !this.isPending(heap.peek()!.message)) heap.pop();
+      if (heap.size === 0) {
+        this.ready.delete(type);
         continue;
       }
+      if (!this.withinTypeLimit(type, now)) continue;
 
-      // Process messages concurrently
-      const processingPromises = readyMessages.map((message) =>
-        this.processMessage(message)
-      );
+      const entry = heap.peek()!;
+      if (!best || compareReady(entry, best.entry) < 0) {
+        best = { heap, entry };
+      }
+    }
+
+    best?.heap.pop();
+    return best?.entry.message;
+  }
+
+  /**
+   * Make the oldest waiting message of a partition ready once the partition is free
+   */
+  private advancePartition(key: string, now: number): void {
+    const partition = this.partitions.get(key);
+    if (!partition) return;
+
+    if (partition.activeId === null) {
+      let next = partition.waiting.pop();
+      while (next && !this.isPending(next)) next = partition.waiting.pop();
+      if (next) {
+        partition.activeId = next.id;
+        this.pushReady(next, now);
+      }
+    }
+
+    if (partition.activeId === null && partition.waiting.size === 0) {
+      this.partitions.delete(key);
+    }
+  }
+
+  /**
+   * Free a message's partition after it completes or is dead-lettered
+   */
+  private releasePartition(message: QueueMessage): void {
+    if (!message.partitionKey) return;
+    const partition = this.partitions.get(message.partitionKey);
+    if (partition?.activeId === message.id) {
+      partition.activeId = null;
+      this.advancePartition(message.partitionKey, Date.now());
+    }
+  }
+
+  private getPartition(key: string): PartitionState {
+    let partition = this.partitions.get(key);
+    if (!partition) {
+      partition = { activeId: null, waiting: new BinaryHeap<QueueMessage>((a, b) => sequenceOf(a) - sequenceOf(b)) };
+      this.partitions.set(key, partition);
+    }
+    return partition;
+  }
+
+  /**
+   * Heap entries are removed lazily; skip messages that were cleared or already taken
+   */
+  private isPending(message: QueueMessage): boolean {
+    return (
+      this.messages.get(message.id) === message && message.status === "pending" && !this.processing.has(message.id)
+    );
+  }
+
+  /**
+   * Wake at the next scheduled message, or when a rate limited type may start again
+   */
+  private armWakeTimer(now: number): void {
+    let wakeAt = this.delayed.peek()?.dueAt ?? null;
 
-      await Promise.all(processingPromises);
+    for (const [type, heap] of this.ready) {
+      const limit = this.options.typeLimits[type];
+      if (heap.size === 0 || !limit?.maxPerInterval) continue;
+      const starts = this.getStartsInWindow(type, now);
+      if (starts.length < limit.maxPerInterval) continue;
+      const reopensAt = starts[0] + (limit.intervalMs || 1000);
+      if (wakeAt === null || reopensAt < wakeAt) wakeAt = reopensAt;
     }
 
-    this.isProcessing = false;
+    if (wakeAt === this.wakeAt) return;
+    this.clearWakeTimer();
+    if (wakeAt === null) return;
+
+    this.wakeAt = wakeAt;
+    this.wakeTimer = setTimeout(() => {
+      this.wakeTimer = null;
+      this.wakeAt = null;
+      this.pump();
+    }, Math.min(Math.max(wakeAt - now, 0), MAX_SCHEDULE_TIMER_MS));
+  }
+
+  private clearWakeTimer(): void {
+    if (this.wakeTimer) clearTimeout(this.wakeTimer);
+    this.wakeTimer = null;
+    this.wakeAt = null;
+  }
+
+  /**
+   * Check an event type's concurrency and rate limits before starting one more message
+   */
+  private withinTypeLimit(eventType: EventType, now: number): boolean {
+    const limit = this.options.typeLimits[eventType];
+    if (!limit) return true;
+
+    const running = this.runningByType.get(eventType) || 0;
+    if (limit.maxConcurrent !== undefined && running >= limit.maxConcurrent) return false;
+
+    if (limit.maxPerInterval !== undefined && this.getStartsInWindow(eventType, now).length >= limit.maxPerInterval) {
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Start times of an event type inside its current rate limit window, oldest first
+   */
+  private getStartsInWindow(eventType: EventType, now: number): number[] {
+    const windowStart = now - (this.options.typeLimits[eventType]?.intervalMs || 1000);
+    const starts = this.typeStarts.get(eventType) || [];
+    while (starts.length > 0 && starts[0] <= windowStart) starts.shift();
+    return starts;
+  }
+
+  private recordTypeStart(eventType: EventType, now: number): void {
+    if (this.options.typeLimits[eventType]?.maxPerInterval === undefined) return;
+    const starts = this.typeStarts.get(eventType) || [];
+    starts.push(now);
+    this.typeStarts.set(eventType, starts);
   }
 
   /**
    * Process a single message
+   * Any handler that throws or nacks fails the message; retries go only to the failed handlers.
+   * A timed-out attempt is retried only to the handlers that had not succeeded; one that is still
+   * running and succeeds before the retry is dropped from it too.
    */
   private async processMessage(message: QueueMessage): Promise<void> {
     this.processing.add(message.id);
     message.status = "processing";
+    message.lastAttemptAt = new Date().toISOString();
+    await this.persist(message);
+
+    const attempt: AttemptProgress = { pending: undefined, timedOut: false };
 
     try {
       // Publish event through the event bus
       const eventBus = getEventBus();
-      await Promise.race([
-        eventBus.publish(message.event),
-        this.timeout(this.options.processingTimeout),
-      ]);
+      await this.withTimeout(
+        eventBus.publish(message.event, {
+          origin: "queue",
+          messageId: message.id,
+          attempt: message.retryCount + 1,
+          idempotencyKey: message.idempotencyKey,
+          throwOnFailure: true,
+          redelivery:
+            message.offset !== undefined
+              ? { offset: message.offset, subscriptionIds: message.failedSubscriptionIds }
+              : undefined,
+          // Known before the timeout race, so a timed-out attempt is retried as a redelivery
+          // of the stored event to the handlers that had not succeeded
+          onDispatch: ({ offset, subscriptionIds }) => {
+            message.offset = offset;
+            attempt.pending = new Set(subscriptionIds);
+          },
+          onHandled: (result) => this.recordHandled(message, attempt, result),
+        }),
+        this.options.processingTimeout
+      );
 
       // Mark as completed
       message.status = "completed";
       message.processedAt = new Date().toISOString();
+      message.error = undefined;
+      message.errorStack = undefined;
+      message.failedSubscriptionIds = undefined;
       this.completedCount++;
 
       // Remove from queue
-      this.removeFromQueue(message.id);
+      this.messages.delete(message.id);
+      this.releasePartition(message);
+      await this.unpersist(message.id);
     } catch (error) {
+      this.recordFailure(message, error, attempt);
       message.retryCount++;
 
       if (message.retryCount >= message.maxRetries) {
         // Move to dead letter queue
         message.status = "dead_letter";
-        this.deadLetter.push(message);
-        this.removeFromQueue(message.id);
+        this.deadLetter.set(message.id, message);
+        this.messages.delete(message.id);
+        this.releasePartition(message);
         this.failedCount++;
       } else {
-        // Schedule retry
+        // Schedule retry; the message keeps its partition until then
+        const dueAt = Date.now() + this.options.retryDelay * Math.pow(2, message.retryCount);
         message.status = "pending";
-        message.scheduledAt = new Date(
-          Date.now() + this.options.retryDelay * Math.pow(2, message.retryCount)
-        ).toISOString();
+        message.scheduledAt = new Date(dueAt).toISOString();
+        this.delayed.push({ message, dueAt });
       }
+      await this.persist(message);
     } finally {
       this.processing.delete(message.id);
+      this.runningByType.set(message.event.type, (this.runningByType.get(message.event.type) || 1) - 1);
+      this.pump();
     }
   }
 
   /**
-   * Remove message from queue
+   * Record failure details on the message
+   * After a timeout the retry redelivers the stored event to the handlers that had not succeeded,
+   * rather than publishing it again
    */
-  private removeFromQueue(messageId: string): void {
-    const index = this.queue.findIndex((m) => m.id === messageId);
-    if (index !== -1) {
-      this.queue.splice(index, 1);
+  private recordFailure(message: QueueMessage, error: unknown, attempt: AttemptProgress): void {
+    message.error = error instanceof Error ? error.message : String(error);
+    message.errorStack = error instanceof Error ? error.stack : undefined;
+
+    if (error instanceof EventDispatchError) {
+      message.offset = error.offset;
+      message.failedSubscriptionIds = error.failedSubscriptionIds;
+    } else if (attempt.pending) {
+      attempt.timedOut = true;
+      message.failedSubscriptionIds = Array.from(attempt.pending);
     }
   }
 
   /**
-   * Timeout promise
+   * Track a handler outcome for the current attempt
+   * After a timeout, a late success is removed from the retry while the message waits for it
    */
-  private timeout(ms: number): Promise<never> {
-    return new Promise((_, reject) =>
-      setTimeout(() => reject(new Error("Processing timeout")), ms)
-    );
+  private recordHandled(message: QueueMessage, attempt: AttemptProgress, result: HandlerResult): void {
+    if (!result.success) return;
+    attempt.pending?.delete(result.subscriptionId);
+
+    if (attempt.timedOut && message.status === "pending" && message.failedSubscriptionIds) {
+      message.failedSubscriptionIds = message.failedSubscriptionIds.filter((id) => id !== result.subscriptionId);
+      this.persist(message);
+    }
+  }
+
+  /**
+   * Load persisted messages and schedules, merging with anything added before the restore finished
+   * Schedules then catch up on runs missed while the process was down; messages are loaded first
+   * so their idempotency keys stop a run enqueued before a crash from being enqueued again
+   */
+  private async loadFromStore(): Promise<void> {
+    for (const schedule of await this.store.loadSchedules()) {
+      if (!this.schedules.has(schedule.id)) {
+        this.schedules.set(schedule.id, schedule);
+      }
+    }
+
+    // Admit in enqueue order so partitions are rebuilt in FIFO order
+    const messages = (await this.store.load()).sort((a, b) => sequenceOf(a) - sequenceOf(b));
+    const now = Date.now();
+
+    for (const message of messages) {
+      const known = this.messages.has(message.id) || this.deadLetter.has(message.id);
+      if (known) continue;
+
+      this.rememberKey(message, message.status === "completed" ? undefined : now);
+      this.nextSequence = Math.max(this.nextSequence, (message.sequence ?? -1) + 1);
+
+      if (message.status === "dead_letter") {
+        this.deadLetter.set(message.id, message);
+      } else if (message.status === "completed") {
+        await this.store.remove(message.id);
+      } else {
+        // Interrupted mid-attempt: deliver again rather than lose it
+        if (message.status === "processing") {
+          message.status = "pending";
+          await this.store.save(message);
+        }
+        this.admit(message, now);
+      }
+    }
+
+    this.fireDueSchedules();
+    this.armScheduleTimer();
+    this.pump();
+  }
+
+  /**
+   * Enqueue due schedule runs
+   * Runs older than the grace period were missed and are handled per the schedule's catchUp policy
+   */
+  private fireDueSchedules(): void {
+    const now = new Date();
+    const eventBus = getEventBus();
+
+    for (const schedule of this.schedules.values()) {
+      if (schedule.paused || !schedule.nextRunAt || new Date(schedule.nextRunAt) > now) continue;
+
+      const cron = parseCronExpression(schedule.cron);
+      // Due runs are nextRunAt and every run after it up to now; only the ones the policy keeps are computed
+      const dueAfter = new Date(new Date(schedule.nextRunAt).getTime() - 1);
+      const latestRuns = getLatestCronRuns(
+        cron,
+        dueAfter,
+        now,
+        schedule.timezone,
+        schedule.catchUp === "all" ? this.options.maxCatchUpRuns : 1
+      );
+      const lastDueRun = latestRuns[latestRuns.length - 1] || new Date(schedule.nextRunAt);
+
+      let runs: Date[];
+      if (schedule.catchUp === "none") {
+        const graceStart = new Date(Math.max(dueAfter.getTime(), now.getTime() - SCHEDULE_GRACE_MS - 1));
+        runs = getCronRunsBetween(cron, graceStart, now, schedule.timezone, this.options.maxCatchUpRuns);
+      } else {
+        runs = latestRuns;
+      }
+
+      for (const run of runs) {
+        const event = eventBus.createEvent(
+          schedule.eventType,
+          schedule.payload as EventPayload<typeof schedule.eventType>,
+          schedule.source
+        );
+        // If the schedule update is lost in a crash, the run key stops a restored run that is still
+        // queued, or one enqueued inside the dedup window, from being enqueued again
+        this.enqueue(
+          { ...event, metadata: { ...event.metadata, scheduleId: schedule.id, scheduledFor: run.toISOString() } },
+          schedule.priority,
+          undefined,
+          { idempotencyKey: `schedule:${schedule.id}:${run.toISOString()}` }
+        );
+      }
+
+      this.updateSchedule(schedule.id, {
+        lastRunAt: lastDueRun.toISOString(),
+        nextRunAt: getNextCronRun(cron, now, schedule.timezone)?.toISOString(),
+      });
+    }
   }
 
   /**
-   * Delay helper
+   * Wake when the next active schedule is due
    */
-  private delay(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
+  private armScheduleTimer(): void {
+    if (this.scheduleTimer) {
+      clearTimeout(this.scheduleTimer);
+      this.scheduleTimer = null;
+    }
+
+    const nextDue = Array.from(this.schedules.values())
+      .filter((schedule) => !schedule.paused && schedule.nextRunAt)
+      .map((schedule) => new Date(schedule.nextRunAt!).getTime())
+      .sort((a, b) => a - b)[0];
+    if (nextDue === undefined) return;
+
+    const delay = Math.min(Math.max(nextDue - Date.now(), 0), MAX_SCHEDULE_TIMER_MS);
+    this.scheduleTimer = setTimeout(() => {
+      this.fireDueSchedules();
+      this.armScheduleTimer();
+    }, delay);
+    // Schedules alone should not keep the process alive
+    this.scheduleTimer.unref?.();
+  }
+
+  private updateSchedule(scheduleId: string, changes: Partial<RecurringSchedule>): RecurringSchedule | undefined {
+    const schedule = this.schedules.get(scheduleId);
+    if (!schedule) return undefined;
+
+    const updated = { ...schedule, ...changes, updatedAt: new Date().toISOString() };
+    this.schedules.set(scheduleId, updated);
+    this.persistSchedule(updated);
+    this.armScheduleTimer();
+    return updated;
+  }
+
+  private persistSchedule(schedule: RecurringSchedule): void {
+    this.store.saveSchedule(schedule).catch((error) => {
+      console.error(`Failed to persist schedule ${schedule.id}:`, error);
+    });
+  }
+
+  /**
+   * Track a message's idempotency key for the dedup window, pruning expired keys
+   * The window runs from enqueue, or from `windowStart` for messages restored still queued,
+   * so a key keeps blocking duplicates however long the process was down
+   */
+  private rememberKey(message: QueueMessage, windowStart?: number): void {
+    if (!message.idempotencyKey) return;
+
+    // Keys are inserted roughly in expiry order, so pruning stops at the first live one
+    const now = Date.now();
+    for (const [key, entry] of this.recentKeys) {
+      if (entry.expiresAt > now) break;
+      this.recentKeys.delete(key);
+    }
+
+    const enqueuedAt = message.enqueuedAt ? new Date(message.enqueuedAt).getTime() : now;
+    const expiresAt = Math.max(enqueuedAt, windowStart ?? 0) + this.options.dedupWindowMs;
+    if (expiresAt > now) {
+      this.recentKeys.set(message.idempotencyKey, { messageId: message.id, expiresAt });
+    }
+  }
+
+  /**
+   * Write a message snapshot to the queue store; failures are logged, not thrown
+   */
+  private persist(message: QueueMessage): Promise<void> {
+    return this.store.save(message).catch((error) => {
+      console.error(`Failed to persist queue message ${message.id}:`, error);
+    });
+  }
+
+  private unpersist(messageId: string): Promise<void> {
+    return this.store.remove(messageId).catch((error) => {
+      console.error(`Failed to remove queue message ${messageId}:`, error);
+    });
+  }
+
+  /**
+   * Reject if the promise does not settle in time, without leaving the timer behind
+   */
+  private withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new Error("Processing timeout")), ms);
+    });
+    return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
   }
 
   /**
    * Generate unique ID
    */
-  private generateId(): string {
-    return `msg-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  private generateId(prefix: string = "msg"): string {
+    return `${prefix}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
   }
 }
 
 // Singleton instance
 let eventQueueInstance: EventQueue | null = null;
 
+/**
+ * Get the shared queue; its restore starts in the background, so await restore() before
+ * enqueueing or reading queue state
+ */
 export function getEventQueue(): EventQueue {
   if (!eventQueueInstance) {
-    eventQueueInstance = new EventQueue();
+    eventQueueInstance = new EventQueue(undefined, createQueueStore());
+    eventQueueInstance.restore().catch((error) => {
+      console.error("Failed to restore event queue:", error);
+    });
   }
   return eventQueueInstance;
 }
@@ -289,7 +1018,7 @@ export function getEventQueue(): EventQueue {
 /**
  * Create a new event queue with custom options
  */
-export function createEventQueue(options?: Partial<QueueOptions>): EventQueue {
-  return new EventQueue(options);
+export function createEventQueue(options?: Partial<QueueOptions>, store?: IQueueStore): EventQueue {
+  return new EventQueue(options, store);
 }
 
@@ -0,0 +1,75 @@
+import { Event, EventType } from "@/types/events";
+
+/**
+ * Transforms a payload from one schema version to the next
+ */
+export type PayloadUpcaster = (payload: Record<string, unknown>, event: Event) => Record<string, unknown>;
+
+/**
+ * Registry of payload upcasters per event type
+ * The current schema version of a type is the highest version its upcasters produce (1 when none are registered)
+ */
+export class UpcasterRegistry {
+  private upcasters: Map<EventType, Map<number, PayloadUpcaster>> = new Map();
+
+  /**
+   * Register an upcaster from `fromVersion` to `fromVersion + 1`
+   */
+  register(type: EventType, fromVersion: number, upcaster: PayloadUpcaster): void {
+    const byVersion = this.upcasters.get(type) || new Map<number, PayloadUpcaster>();
+    if (byVersion.has(fromVersion)) {
+      throw new Error(`Upcaster for ${type} v${fromVersion} is already registered`);
+    }
+    byVersion.set(fromVersion, upcaster);
+    this.upcasters.set(type, byVersion);
+  }
+
+  /**
+   * Get the current schema version for an event type
+   */
+  getCurrentVersion(type: EventType): number {
+    const byVersion = this.upcasters.get(type);
+    if (!byVersion || byVersion.size === 0) return 1;
+    return Math.max(...byVersion.keys()) + 1;
+  }
+
+  /**
+   * Upcast an event to the current schema version of its type
+   * Events without a schemaVersion are treated as version 1
+   */
+  upcast<E extends Event>(event: E): E {
+    const currentVersion = this.getCurrentVersion(event.type);
+    let version = event.schemaVersion ?? 1;
+    if (version >= currentVersion) return event;
+
+    const byVersion = this.upcasters.get(event.type)!;
+    let payload = event.payload;
+    while (version < currentVersion) {
+      const upcaster = byVersion.get(version);
+      if (!upcaster) {
+        throw new Error(`Missing upcaster for ${event.type} v${version}`);
+      }
+      payload = upcaster(payload, event);
+      version++;
+    }
+
+    return { ...event, payload, schemaVersion: version };
+  }
+
+  /**
+   * Remove all upcasters
+   */
+  clear(): void {
+    this.upcasters.clear();
+  }
+}
+
+// Singleton instance
+let upcasterRegistryInstance: UpcasterRegistry | null = null;
+
+export function getUpcasterRegistry(): UpcasterRegistry {
+  if (!upcasterRegistryInstance) {
+    upcasterRegistryInstance = new UpcasterRegistry();
+  }
+  return upcasterRegistryInstance;
+}
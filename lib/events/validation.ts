@@ -0,0 +1,101 @@
+import { z } from "zod";
+import {
+  Event,
+  EventPayloadSchemas,
+  EventSchema,
+  EventType,
+  EventTypeSchema,
+  WebhookConfig,
+  WebhookConfigSchema,
+} from "@/types/events";
+import { parseFilterExpression } from "./filter-expression";
+
+/**
+ * Field-level validation issue
+ */
+export interface EventValidationIssue {
+  path: string;
+  message: string;
+}
+
+/**
+ * Error raised when an event or its payload does not match its schema
+ */
+export class EventValidationError extends Error {
+  constructor(
+    public readonly eventType: string,
+    public readonly issues: EventValidationIssue[]
+  ) {
+    super(
+      `Invalid event "${eventType}": ${issues.map((issue) => `${issue.path || "(root)"} ${issue.message}`).join("; ")}`
+    );
+    this.name = "EventValidationError";
+  }
+}
+
+/**
+ * Validate a payload against the schema registered for its event type
+ */
+export function validateEventPayload(type: EventType, payload: unknown): EventValidationIssue[] {
+  const result = EventPayloadSchemas[type].safeParse(payload);
+  return result.success ? [] : toIssues(result.error, "payload");
+}
+
+/**
+ * Validate a full event envelope and its typed payload
+ */
+export function validateEvent(event: unknown): EventValidationIssue[] {
+  const envelope = EventSchema.safeParse(event);
+  if (!envelope.success) {
+    return toIssues(envelope.error);
+  }
+  return validateEventPayload(envelope.data.type, envelope.data.payload);
+}
+
+/**
+ * Assert that an event is valid, throwing an EventValidationError otherwise
+ */
+export function assertValidEvent(event: Event): void {
+  const issues = validateEvent(event);
+  if (issues.length > 0) {
+    throw new EventValidationError(event.type, issues);
+  }
+}
+
+/**
+ * Validate a webhook configuration, including that its filter expression parses
+ * On success returns the parsed configuration: defaults applied and unknown fields dropped
+ */
+export function validateWebhookConfig(
+  config: unknown
+): { success: true; data: WebhookConfig } | { success: false; issues: EventValidationIssue[] } {
+  const result = WebhookConfigSchema.safeParse(config);
+  if (!result.success) return { success: false, issues: toIssues(result.error) };
+
+  if (result.data.filter) {
+    try {
+      parseFilterExpression(result.data.filter);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Invalid filter expression";
+      return { success: false, issues: [{ path: "filter", message }] };
+    }
+  }
+  return { success: true, data: result.data };
+}
+
+/**
+ * Check whether a value is a known event type
+ */
+export function isEventType(value: unknown): value is EventType {
+  return EventTypeSchema.safeParse(value).success;
+}
+
+/**
+ * Convert zod issues to field-level issues
+ */
+function toIssues(error: z.ZodError, prefix?: string): EventValidationIssue[] {
+  return error.issues.map((issue) => ({
+    path: [prefix, ...issue.path.map(String)].filter(Boolean).join("."),
+    message: issue.message,
+  }));
+}
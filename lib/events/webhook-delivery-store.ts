@@ -0,0 +1,90 @@
+import path from "path";
+import { z } from "zod";
+import { IWebhookDeliveryStore, WebhookDelivery, WebhookDeliverySchema } from "@/types/events";
+import { JsonLinesFile } from "./file-stores";
+
+/**
+ * In-memory webhook delivery store
+ * Pending deliveries are lost on restart; used for tests and EVENT_STORE=memory
+ */
+export class InMemoryWebhookDeliveryStore implements IWebhookDeliveryStore {
+  protected deliveries: Map<string, WebhookDelivery> = new Map();
+
+  async load(): Promise<WebhookDelivery[]> {
+    return Array.from(this.deliveries.values());
+  }
+
+  async save(delivery: WebhookDelivery): Promise<void> {
+    this.deliveries.set(delivery.id, { ...delivery });
+  }
+
+  async remove(deliveryId: string): Promise<void> {
+    this.deliveries.delete(deliveryId);
+  }
+}
+
+/**
+ * Journal record: a full delivery snapshot, or a removal
+ */
+const DeliveryJournalRecordSchema = z.discriminatedUnion("op", [
+  z.object({ op: z.literal("put"), delivery: WebhookDeliverySchema }),
+  z.object({ op: z.literal("remove"), id: z.string() }),
+]);
+type DeliveryJournalRecord = z.infer<typeof DeliveryJournalRecordSchema>;
+
+/**
+ * File-backed webhook delivery store
+ * Appends one JSON record per change and compacts the journal to live deliveries on load
+ * and whenever superseded records outnumber live ones
+ */
+export class FileWebhookDeliveryStore extends InMemoryWebhookDeliveryStore {
+  private journal: JsonLinesFile<DeliveryJournalRecord>;
+
+  constructor(filePath: string, minCompactionSize: number = 1000) {
+    super();
+    this.journal = new JsonLinesFile(filePath, {
+      schema: DeliveryJournalRecordSchema,
+      apply: (record) => {
+        if (record.op === "put") {
+          this.deliveries.set(record.delivery.id, record.delivery);
+        } else {
+          this.deliveries.delete(record.id);
+        }
+      },
+      snapshot: () => Array.from(this.deliveries.values()).map((delivery) => ({ op: "put" as const, delivery })),
+      size: () => this.deliveries.size,
+      minCompactionSize,
+    });
+  }
+
+  async load(): Promise<WebhookDelivery[]> {
+    await this.journal.ensureLoaded();
+    return super.load();
+  }
+
+  async save(delivery: WebhookDelivery): Promise<void> {
+    await this.journal.ensureLoaded();
+    await super.save(delivery);
+    await this.journal.append({ op: "put", delivery });
+  }
+
+  async remove(deliveryId: string): Promise<void> {
+    await this.journal.ensureLoaded();
+    if (!this.deliveries.has(deliveryId)) return;
+    await super.remove(deliveryId);
+    await this.journal.append({ op: "remove", id: deliveryId });
+  }
+}
+
+/**
+ * Create the configured webhook delivery store
+ * EVENT_STORE=memory keeps deliveries in memory only; otherwise they are written to WEBHOOK_DELIVERY_STORE_PATH
+ */
+export function createWebhookDeliveryStore(): IWebhookDeliveryStore {
+  if (process.env.EVENT_STORE === "memory") {
+    return new InMemoryWebhookDeliveryStore();
+  }
+  return new FileWebhookDeliveryStore(
+    process.env.WEBHOOK_DELIVERY_STORE_PATH || path.join(process.cwd(), ".data", "webhook-deliveries.jsonl")
+  );
+}
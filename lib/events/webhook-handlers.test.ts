@@ -0,0 +1,193 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { getEventBus } from "./event-bus";
+import { createWebhookConfig, signWebhookPayload, verifyWebhookSignature, WebhookHandler } from "./webhook-handlers";
+
+const SECRET = "test-secret";
+const BODY = JSON.stringify({ ticketId: "t-1" });
+
+const now = () => Math.floor(Date.now() / 1000);
+
+const ticketCreated = (ticketId: string) =>
+  getEventBus().createEvent("ticket.created", { ticketId, category: "it" }, "tests");
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe("signWebhookPayload", () => {
+  it("signs the timestamp and body as a sha256 hex digest", () => {
+    const signature = signWebhookPayload(SECRET, 1700000000, BODY);
+
+    expect(signature).toMatch(/^sha256=[0-9a-f]{64}$/);
+    expect(signWebhookPayload(SECRET, 1700000001, BODY)).not.toBe(signature);
+    expect(signWebhookPayload("other-secret", 1700000000, BODY)).not.toBe(signature);
+  });
+});
+
+describe("verifyWebhookSignature", () => {
+  it("accepts a fresh signature", () => {
+    const timestamp = now();
+    expect(verifyWebhookSignature(SECRET, timestamp, BODY, signWebhookPayload(SECRET, timestamp, BODY))).toBe(true);
+  });
+
+  it("rejects a changed body or the wrong secret", () => {
+    const timestamp = now();
+    const signature = signWebhookPayload(SECRET, timestamp, BODY);
+
+    expect(verifyWebhookSignature(SECRET, timestamp, `${BODY} `, signature)).toBe(false);
+    expect(verifyWebhookSignature("other-secret", timestamp, BODY, signature)).toBe(false);
+  });
+
+  it("only accepts timestamps inside the tolerance window", () => {
+    const inside = now() - 290;
+    const outside = now() - 310;
+    const future = now() + 310;
+
+    expect(verifyWebhookSignature(SECRET, inside, BODY, signWebhookPayload(SECRET, inside, BODY))).toBe(true);
+    expect(verifyWebhookSignature(SECRET, outside, BODY, signWebhookPayload(SECRET, outside, BODY))).toBe(false);
+    expect(verifyWebhookSignature(SECRET, future, BODY, signWebhookPayload(SECRET, future, BODY))).toBe(false);
+    expect(verifyWebhookSignature(SECRET, outside, BODY, signWebhookPayload(SECRET, outside, BODY), 600)).toBe(true);
+    expect(verifyWebhookSignature(SECRET, NaN, BODY, signWebhookPayload(SECRET, NaN, BODY))).toBe(false);
+  });
+
+  it("rejects a signature of a different length without throwing", () => {
+    const timestamp = now();
+
+    expect(verifyWebhookSignature(SECRET, timestamp, BODY, "sha256=abc")).toBe(false);
+    expect(verifyWebhookSignature(SECRET, timestamp, BODY, "")).toBe(false);
+  });
+});
+
+describe("WebhookHandler delivery requests", () => {
+  it("sends a signed request", async () => {
+    const fetchMock = vi.fn(async (_url: string, _init: RequestInit) => new Response("ok", { status: 200 }));
+    vi.stubGlobal("fetch", fetchMock);
+
+    const handler = new WebhookHandler();
+    handler.registerWebhook(createWebhookConfig("https://example.test/hook", ["ticket.created"], { secret: SECRET }));
+    const [webhook] = handler.getWebhooks();
+    const event = getEventBus().createEvent("ticket.created", { ticketId: "t-1", category: "it" }, "tests");
+
+    const result = await handler.deliverToWebhook(webhook.id, event);
+
+    expect(result).toMatchObject({ success: true, statusCode: 200, responseBody: "ok" });
+    const [url, init] = fetchMock.mock.calls[0];
+    const headers = init.headers as Record<string, string>;
+    expect(url).toBe("https://example.test/hook");
+    expect(headers["X-Webhook-Event-Id"]).toBe(event.id);
+    const timestamp = Number(headers["X-Webhook-Timestamp"]);
+    expect(verifyWebhookSignature(SECRET, timestamp, init.body as string, headers["X-Webhook-Signature"])).toBe(true);
+  });
+
+  it("aborts a request that outlives the webhook timeout", async () => {
+    let signal: AbortSignal | undefined;
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(
+        (_url: string, init: RequestInit) =>
+          new Promise<Response>((_resolve, reject) => {
+            signal = init.signal!;
+            signal.addEventListener("abort", () => reject(new DOMException("aborted", "AbortError")));
+          })
+      )
+    );
+
+    const handler = new WebhookHandler();
+    handler.registerWebhook(
+      createWebhookConfig("https://example.test/slow", ["ticket.created"], { timeout: 20, retryCount: 0 })
+    );
+    const [webhook] = handler.getWebhooks();
+    const event = getEventBus().createEvent("ticket.created", { ticketId: "t-1", category: "it" }, "tests");
+
+    const result = await handler.deliverToWebhook(webhook.id, event);
+
+    expect(signal?.aborted).toBe(true);
+    expect(result).toMatchObject({ success: false, error: "Request timed out after 20ms" });
+    expect(handler.getPendingDeliveries(webhook.id)).toHaveLength(0);
+  });
+});
+
+describe("WebhookHandler retries and circuit breaker", () => {
+  it("schedules a retry after a jittered backoff", async () => {
+    vi.stubGlobal("fetch", vi.fn(async () => new Response("down", { status: 503 })));
+    const handler = new WebhookHandler(undefined, undefined, { retryDelay: 1000 });
+
+    const retryDelays: number[] = [];
+    for (const random of [0, 0.999]) {
+      const webhook = createWebhookConfig("https://example.test/retry", ["ticket.created"], { retryCount: 2 });
+      handler.registerWebhook(webhook);
+      const event = ticketCreated("t-1");
+      const before = Date.now();
+
+      vi.spyOn(Math, "random").mockReturnValue(random);
+      const result = await handler.deliverToWebhook(webhook.id, event);
+      vi.mocked(Math.random).mockRestore();
+
+      expect(result).toMatchObject({ success: false, statusCode: 503 });
+      const [delivery] = handler.getPendingDeliveries(webhook.id);
+      expect(delivery).toMatchObject({ attempts: 1, lastStatusCode: 503 });
+      retryDelays.push(new Date(delivery.nextAttemptAt).getTime() - before);
+      // Drops the pending retry
+      handler.unregisterWebhook(webhook.id);
+    }
+
+    // Equal jitter: between half and all of the 1000ms base delay
+    expect(retryDelays[0]).toBeGreaterThanOrEqual(500);
+    expect(retryDelays[0]).toBeLessThan(600);
+    expect(retryDelays[1]).toBeGreaterThanOrEqual(990);
+    expect(retryDelays[1]).toBeLessThan(1100);
+  });
+
+  it("opens the circuit after repeated failures, holds a capped backlog and flushes it when re-enabled", async () => {
+    let healthy = false;
+    const fetchMock = vi.fn(async () => new Response("", { status: healthy ? 200 : 500 }));
+    vi.stubGlobal("fetch", fetchMock);
+    vi.spyOn(console, "warn").mockImplementation(() => undefined);
+
+    const eventBus = getEventBus();
+    const handler = new WebhookHandler(undefined, undefined, { circuitBreakerThreshold: 3, maxBacklogPerWebhook: 2 });
+    handler.registerWebhook(createWebhookConfig("https://example.test/down", ["ticket.created"], { retryCount: 0 }));
+    const [webhook] = handler.getWebhooks();
+
+    const alerts: unknown[] = [];
+    const alertSubscription = eventBus.subscribe({
+      id: "webhook-test-circuit-alerts",
+      eventType: "webhook.circuit_opened",
+      handler: async (event) => {
+        alerts.push(event.payload);
+      },
+    });
+
+    try {
+      for (const ticketId of ["t-1", "t-2", "t-3"]) {
+        await eventBus.publish(ticketCreated(ticketId));
+      }
+      await vi.waitFor(() => expect(handler.getWebhook(webhook.id)?.active).toBe(false));
+
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+      expect(handler.getWebhook(webhook.id)).toMatchObject({ circuitOpenedAt: expect.any(String) });
+      await vi.waitFor(() => expect(alerts).toHaveLength(1));
+      expect(alerts[0]).toMatchObject({ webhookId: webhook.id, consecutiveFailures: 3, lastError: "HTTP 500" });
+
+      // Held while the circuit is open, up to the backlog cap; later events are dropped
+      for (const ticketId of ["t-4", "t-5", "t-6"]) {
+        await eventBus.publish(ticketCreated(ticketId));
+      }
+      const held = handler.getPendingDeliveries(webhook.id);
+      expect(held.map((delivery) => delivery.event.payload.ticketId)).toEqual(["t-4", "t-5"]);
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+
+      healthy = true;
+      const reenabled = handler.reenableWebhook(webhook.id);
+
+      expect(reenabled).toMatchObject({ flushed: 2, webhook: { active: true, circuitOpenedAt: undefined } });
+      await vi.waitFor(() => expect(handler.getPendingDeliveries(webhook.id)).toHaveLength(0));
+      expect(fetchMock).toHaveBeenCalledTimes(5);
+      expect(handler.getDeliveryHistory({ webhookId: webhook.id, success: true })).toHaveLength(2);
+    } finally {
+      eventBus.unsubscribe(alertSubscription);
+      handler.unregisterWebhook(webhook.id);
+    }
+  });
+});
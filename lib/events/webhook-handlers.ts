@@ -1,43 +1,177 @@
-import { Event, EventType, WebhookConfig } from "@/types/events";
+import { createHmac, timingSafeEqual } from "crypto";
+import {
+  CloudEventsMode,
+  Event,
+  EventType,
+  IWebhookDeliveryStore,
+  IWebhookStore,
+  WebhookConfig,
+  WebhookDelivery,
+  WebhookPayloadTemplate,
+} from "@/types/events";
+import { encodeCloudEventHttp, toCloudEvent } from "./cloudevents";
 import { getEventBus } from "./event-bus";
+import { matchesFilterExpression } from "./filter-expression";
+import { BinaryHeap } from "./heap";
+import { createWebhookDeliveryStore, InMemoryWebhookDeliveryStore } from "./webhook-delivery-store";
+import { renderWebhookPayload } from "./webhook-payloads";
+import { createWebhookStore, InMemoryWebhookStore } from "./webhook-store";
 
 /**
  * Webhook delivery result
  */
-interface WebhookDeliveryResult {
+export interface WebhookDeliveryResult {
   webhookId: string;
+  eventId?: string;
   success: boolean;
   statusCode?: number;
+  // First MAX_RESPONSE_SNIPPET characters of the response body
+  responseBody?: string;
   error?: string;
   retryCount: number;
+  durationMs?: number;
   deliveredAt: string;
 }
 
+/**
+ * Outbound delivery options
+ */
+interface WebhookDeliveryOptions {
+  // Queued deliveries attempted at once across all webhooks
+  maxConcurrentDeliveries: number;
+  // Base retry delay; doubles per attempt, with jitter, up to maxRetryDelay
+  retryDelay: number;
+  maxRetryDelay: number;
+  // Consecutive failed attempts that deactivate a webhook
+  circuitBreakerThreshold: number;
+  // Deliveries held per webhook while its circuit is open; newer events beyond this are dropped
+  maxBacklogPerWebhook: number;
+}
+
+/**
+ * Delivery history filter; since and until are ISO timestamps compared with deliveredAt
+ */
+export interface DeliveryHistoryFilter {
+  webhookId?: string;
+  success?: boolean;
+  since?: string;
+  until?: string;
+  limit?: number;
+}
+
+/**
+ * Headers sent with every delivery
+ * The signature covers "<timestamp>.<body>", so receivers can reject replays by checking the timestamp
+ */
+export const WEBHOOK_HEADERS = {
+  signature: "X-Webhook-Signature",
+  timestamp: "X-Webhook-Timestamp",
+  eventId: "X-Webhook-Event-Id",
+  eventType: "X-Webhook-Event-Type",
+  webhookId: "X-Webhook-Id",
+} as const;
+
+const MAX_RESPONSE_SNIPPET = 1000;
+// Default window in which a signed timestamp is accepted
+const DEFAULT_SIGNATURE_TOLERANCE_SECONDS = 300;
+
+/**
+ * Sign a webhook body with HMAC-SHA256
+ * Returns the signature header value, "sha256=<hex digest>"
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  const digest = createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+  return `sha256=${digest}`;
+}
+
+/**
+ * Verify a webhook signature and that its timestamp is inside the tolerance window
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  timestamp: number,
+  body: string,
+  signature: string,
+  toleranceSeconds: number = DEFAULT_SIGNATURE_TOLERANCE_SECONDS
+): boolean {
+  if (!Number.isFinite(timestamp) || Math.abs(Date.now() / 1000 - timestamp) > toleranceSeconds) {
+    return false;
+  }
+
+  const expected = Buffer.from(signWebhookPayload(secret, timestamp, body));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
 /**
  * Webhook handler for delivering events to external systems
+ * Registrations and pending deliveries are written to pluggable stores so they survive a restart.
+ * Published events are queued per matching webhook and delivered in the background, so a slow
+ * endpoint never holds up the event bus; failed attempts are retried with jittered backoff.
+ * After too many consecutive failures a webhook's circuit opens: it is deactivated, a
+ * webhook.circuit_opened alert is published, and its deliveries are held until it is re-enabled.
  */
 export class WebhookHandler {
   private webhooks: Map<string, WebhookConfig> = new Map();
   private deliveryHistory: WebhookDeliveryResult[] = [];
   private maxHistorySize: number = 500;
+  private restorePromise: Promise<void> | null = null;
+  private options: WebhookDeliveryOptions;
+  // Pending deliveries by ID; those of inactive webhooks are held here but kept out of the due heap
+  private deliveries: Map<string, WebhookDelivery> = new Map();
+  private due = new BinaryHeap<{ delivery: WebhookDelivery; dueAt: number }>((a, b) => a.dueAt - b.dueAt);
+  private inFlight: Set<string> = new Set();
+  private consecutiveFailures: Map<string, number> = new Map();
+  private wakeTimer: ReturnType<typeof setTimeout> | null = null;
+  private wakeAt: number | null = null;
+
+  constructor(
+    private store: IWebhookStore = new InMemoryWebhookStore(),
+    private deliveryStore: IWebhookDeliveryStore = new InMemoryWebhookDeliveryStore(),
+    options?: Partial<WebhookDeliveryOptions>
+  ) {
+    this.options = {
+      maxConcurrentDeliveries: options?.maxConcurrentDeliveries || 10,
+      retryDelay: options?.retryDelay || 1000,
+      maxRetryDelay: options?.maxRetryDelay || 5 * 60 * 1000,
+      circuitBreakerThreshold: options?.circuitBreakerThreshold || 5,
+      maxBacklogPerWebhook: options?.maxBacklogPerWebhook || 1000,
+    };
 
-  constructor() {
     // Subscribe to all events for webhook delivery
     this.setupEventSubscription();
   }
 
+  /**
+   * Load persisted registrations and pending deliveries once, keeping anything added before the load finished
+   */
+  restore(): Promise<void> {
+    if (!this.restorePromise) {
+      this.restorePromise = this.loadFromStores();
+    }
+    return this.restorePromise;
+  }
+
   /**
    * Register a webhook
    */
   registerWebhook(config: WebhookConfig): void {
     this.webhooks.set(config.id, config);
+    this.persist(config);
   }
 
   /**
    * Unregister a webhook
    */
-  unregisterWebhook(webhookId: string): void {
-    this.webhooks.delete(webhookId);
+  unregisterWebhook(webhookId: string): boolean {
+    if (!this.webhooks.delete(webhookId)) return false;
+
+    this.store.remove(webhookId).catch((error) => {
+      console.error(`Failed to remove webhook ${webhookId}:`, error);
+    });
+    this.consecutiveFailures.delete(webhookId);
+    this.getPendingDeliveries(webhookId).forEach((delivery) => this.removeDelivery(delivery));
+    return true;
   }
 
   /**
@@ -55,24 +189,88 @@ export class WebhookHandler {
   }
 
   /**
-   * Update webhook configuration
+   * Update webhook configuration; the ID and creation time cannot change
+   * Reactivating a webhook closes its circuit and flushes its held deliveries
    */
-  updateWebhook(webhookId: string, updates: Partial<WebhookConfig>): void {
+  updateWebhook(webhookId: string, updates: Partial<WebhookConfig>): WebhookConfig | undefined {
     const existing = this.webhooks.get(webhookId);
-    if (existing) {
-      this.webhooks.set(webhookId, { ...existing, ...updates, updatedAt: new Date().toISOString() });
+    if (!existing) return undefined;
+
+    const updated = {
+      ...existing,
+      ...updates,
+      id: existing.id,
+      createdAt: existing.createdAt,
+      updatedAt: new Date().toISOString(),
+    };
+    const reactivated = !existing.active && updated.active;
+    if (reactivated) {
+      updated.circuitOpenedAt = undefined;
+      updated.disabledReason = undefined;
     }
+
+    this.webhooks.set(webhookId, updated);
+    this.persist(updated);
+
+    if (reactivated) {
+      this.flushBacklog(webhookId);
+    }
+    return updated;
   }
 
   /**
    * Enable/disable webhook
    */
-  setWebhookActive(webhookId: string, active: boolean): void {
-    this.updateWebhook(webhookId, { active });
+  setWebhookActive(webhookId: string, active: boolean): WebhookConfig | undefined {
+    return this.updateWebhook(webhookId, { active });
+  }
+
+  /**
+   * Re-enable a webhook, closing its circuit, and deliver its held backlog now
+   * Returns the number of deliveries flushed, or undefined if the webhook does not exist
+   */
+  reenableWebhook(webhookId: string): { webhook: WebhookConfig; flushed: number } | undefined {
+    const existing = this.webhooks.get(webhookId);
+    if (!existing) return undefined;
+
+    const flushed = this.getPendingDeliveries(webhookId).length;
+    const webhook = existing.active ? existing : this.updateWebhook(webhookId, { active: true })!;
+    if (existing.active) {
+      this.flushBacklog(webhookId);
+    }
+    return { webhook, flushed };
+  }
+
+  /**
+   * Get deliveries waiting for an attempt, optionally for one webhook
+   */
+  getPendingDeliveries(webhookId?: string): WebhookDelivery[] {
+    return Array.from(this.deliveries.values()).filter((delivery) => !webhookId || delivery.webhookId === webhookId);
+  }
+
+  /**
+   * Send a webhook.ping event to check the endpoint
+   * Pings go out once, without retries, whether or not the webhook is active or subscribed to webhook.ping
+   */
+  async sendTestPing(webhookId: string): Promise<WebhookDeliveryResult> {
+    const webhook = this.webhooks.get(webhookId);
+    if (!webhook) {
+      return {
+        webhookId,
+        success: false,
+        error: "Webhook not found",
+        retryCount: 0,
+        deliveredAt: new Date().toISOString(),
+      };
+    }
+
+    const event = getEventBus().createEvent("webhook.ping", { webhookId }, "webhooks");
+    return this.attemptDelivery(webhook, event, 0);
   }
 
   /**
    * Deliver event to a specific webhook
+   * The first attempt is made immediately; if it fails, retries go through the delivery queue
    */
   async deliverToWebhook(webhookId: string, event: Event): Promise<WebhookDeliveryResult> {
     const webhook = this.webhooks.get(webhookId);
@@ -96,19 +294,33 @@ export class WebhookHandler {
       };
     }
 
-    return this.attemptDelivery(webhook, event, 0);
+    return this.runDelivery(this.createDelivery(webhookId, event));
   }
 
   /**
-   * Get delivery history
+   * Get delivery history, oldest first
    */
-  getDeliveryHistory(filter?: { webhookId?: string; limit?: number }): WebhookDeliveryResult[] {
+  getDeliveryHistory(filter?: DeliveryHistoryFilter): WebhookDeliveryResult[] {
     let history = this.deliveryHistory;
 
     if (filter?.webhookId) {
       history = history.filter((h) => h.webhookId === filter.webhookId);
     }
 
+    if (filter?.success !== undefined) {
+      history = history.filter((h) => h.success === filter.success);
+    }
+
+    if (filter?.since) {
+      const since = new Date(filter.since).getTime();
+      history = history.filter((h) => new Date(h.deliveredAt).getTime() >= since);
+    }
+
+    if (filter?.until) {
+      const until = new Date(filter.until).getTime();
+      history = history.filter((h) => new Date(h.deliveredAt).getTime() <= until);
+    }
+
     if (filter?.limit) {
       history = history.slice(-filter.limit);
     }
@@ -123,96 +335,352 @@ export class WebhookHandler {
     const eventBus = getEventBus();
 
     // Subscribe to all event types
-    eventBus.on(
-      [
-        "ticket.created",
-        "ticket.closed",
-        "lms.course.completed",
-        "h2r.requisition.created",
-        "h2r.requisition.completed",
-        "performance.assessment.created",
-        "performance.skill_gap.identified",
-      ],
-      async (event) => {
+    eventBus.subscribe({
+      id: "webhook-delivery",
+      eventType: "*",
+      handler: async (event) => {
         await this.deliverToMatchingWebhooks(event);
-      }
-    );
+      },
+    });
   }
 
   /**
-   * Deliver event to all matching webhooks
+   * Check whether a webhook subscribes to an event: its type is listed and it passes the filter
+   * A filter that no longer parses matches nothing
+   */
+  matchesWebhook(webhook: WebhookConfig, event: Event): boolean {
+    if (!webhook.events.includes(event.type)) return false;
+    if (!webhook.filter) return true;
+
+    try {
+      return matchesFilterExpression(event, webhook.filter);
+    } catch (error) {
+      console.error(`Skipping webhook ${webhook.id}: ${error instanceof Error ? error.message : error}`);
+      return false;
+    }
+  }
+
+  /**
+   * Queue the event for every matching webhook
+   * Webhooks whose circuit is open keep queueing, up to their backlog limit, so nothing is lost
+   * while they are down; manually deactivated webhooks are skipped
    */
   private async deliverToMatchingWebhooks(event: Event): Promise<void> {
     const matchingWebhooks = Array.from(this.webhooks.values()).filter(
-      (webhook) => webhook.active && webhook.events.includes(event.type)
+      (webhook) => (webhook.active || webhook.circuitOpenedAt) && this.matchesWebhook(webhook, event)
     );
 
-    const deliveryPromises = matchingWebhooks.map((webhook) =>
-      this.attemptDelivery(webhook, event, 0)
-    );
+    const queued = matchingWebhooks.map((webhook) => {
+      if (!webhook.active && this.getPendingDeliveries(webhook.id).length >= this.options.maxBacklogPerWebhook) {
+        console.warn(`Dropping ${event.type} for webhook ${webhook.id}: backlog is full`);
+        return Promise.resolve();
+      }
+      return this.saveDelivery(this.createDelivery(webhook.id, event));
+    });
 
-    await Promise.all(deliveryPromises);
+    await Promise.all(queued);
+    this.pump();
   }
 
   /**
-   * Attempt to deliver event to webhook with retries
+   * Start due deliveries up to the concurrency limit, then sleep until the next one is due
+   */
+  private pump(): void {
+    const now = Date.now();
+
+    while (this.inFlight.size < this.options.maxConcurrentDeliveries && this.due.size > 0) {
+      const { delivery, dueAt } = this.due.peek()!;
+      if (dueAt > now) break;
+      this.due.pop();
+
+      // Heap entries are removed lazily; skip deliveries that were rescheduled, removed or are running
+      if (
+        this.deliveries.get(delivery.id) !== delivery ||
+        new Date(delivery.nextAttemptAt).getTime() !== dueAt ||
+        this.inFlight.has(delivery.id)
+      ) {
+        continue;
+      }
+
+      const webhook = this.webhooks.get(delivery.webhookId);
+      if (!webhook) {
+        this.removeDelivery(delivery);
+        continue;
+      }
+      // Held until the webhook is re-enabled
+      if (!webhook.active) continue;
+
+      this.runDelivery(delivery).catch((error) => {
+        console.error(`Webhook delivery ${delivery.id} failed unexpectedly:`, error);
+      });
+    }
+
+    this.armWakeTimer(now);
+  }
+
+  /**
+   * Make one attempt, then remove the delivery or schedule its retry
+   */
+  private async runDelivery(delivery: WebhookDelivery): Promise<WebhookDeliveryResult> {
+    const webhook = this.webhooks.get(delivery.webhookId)!;
+    this.inFlight.add(delivery.id);
+
+    try {
+      const result = await this.attemptDelivery(webhook, delivery.event, delivery.attempts);
+      await this.recordCircuitResult(webhook.id, result);
+
+      if (result.success || delivery.attempts >= webhook.retryCount) {
+        // Delivered, or out of retries; the history keeps the final result
+        await this.removeDelivery(delivery);
+      } else {
+        const attempts = delivery.attempts + 1;
+        await this.saveDelivery({
+          ...delivery,
+          attempts,
+          nextAttemptAt: new Date(Date.now() + this.getRetryDelay(attempts)).toISOString(),
+          lastError: result.error,
+          lastStatusCode: result.statusCode,
+        });
+      }
+
+      return result;
+    } finally {
+      this.inFlight.delete(delivery.id);
+      this.pump();
+    }
+  }
+
+  /**
+   * Exponential backoff with equal jitter, so retries from many deliveries do not line up
+   */
+  private getRetryDelay(attempts: number): number {
+    const delay = Math.min(this.options.retryDelay * Math.pow(2, attempts - 1), this.options.maxRetryDelay);
+    return delay / 2 + Math.random() * (delay / 2);
+  }
+
+  /**
+   * Track consecutive failures and open the circuit once they reach the threshold
+   */
+  private async recordCircuitResult(webhookId: string, result: WebhookDeliveryResult): Promise<void> {
+    if (result.success) {
+      this.consecutiveFailures.delete(webhookId);
+      return;
+    }
+
+    const failures = (this.consecutiveFailures.get(webhookId) || 0) + 1;
+    this.consecutiveFailures.set(webhookId, failures);
+
+    const webhook = this.webhooks.get(webhookId);
+    if (!webhook?.active || failures < this.options.circuitBreakerThreshold) return;
+
+    this.consecutiveFailures.delete(webhookId);
+    this.updateWebhook(webhookId, {
+      active: false,
+      circuitOpenedAt: new Date().toISOString(),
+      disabledReason: `Circuit opened after ${failures} consecutive failed deliveries: ${result.error}`,
+    });
+    console.warn(`Webhook ${webhookId} deactivated after ${failures} consecutive failed deliveries`);
+
+    try {
+      const eventBus = getEventBus();
+      await eventBus.publish(
+        eventBus.createEvent(
+          "webhook.circuit_opened",
+          { webhookId, url: webhook.url, consecutiveFailures: failures, lastError: result.error },
+          "webhooks"
+        )
+      );
+    } catch (error) {
+      console.error(`Failed to publish circuit alert for webhook ${webhookId}:`, error);
+    }
+  }
+
+  /**
+   * Make every held delivery of a webhook due now, with a fresh set of retries
+   */
+  private flushBacklog(webhookId: string): void {
+    const now = new Date().toISOString();
+    const flushes = this.getPendingDeliveries(webhookId)
+      .filter((delivery) => !this.inFlight.has(delivery.id))
+      .map((delivery) => this.saveDelivery({ ...delivery, attempts: 0, nextAttemptAt: now }));
+
+    Promise.all(flushes).then(() => this.pump());
+  }
+
+  private createDelivery(webhookId: string, event: Event): WebhookDelivery {
+    const now = new Date().toISOString();
+    return {
+      id: `delivery-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      webhookId,
+      event,
+      attempts: 0,
+      nextAttemptAt: now,
+      createdAt: now,
+    };
+  }
+
+  /**
+   * Track a delivery and write it to the delivery store; failures are logged, not thrown
+   */
+  private async saveDelivery(delivery: WebhookDelivery): Promise<void> {
+    this.deliveries.set(delivery.id, delivery);
+    this.due.push({ delivery, dueAt: new Date(delivery.nextAttemptAt).getTime() });
+
+    await this.deliveryStore.save(delivery).catch((error) => {
+      console.error(`Failed to persist webhook delivery ${delivery.id}:`, error);
+    });
+  }
+
+  private async removeDelivery(delivery: WebhookDelivery): Promise<void> {
+    this.deliveries.delete(delivery.id);
+
+    await this.deliveryStore.remove(delivery.id).catch((error) => {
+      console.error(`Failed to remove webhook delivery ${delivery.id}:`, error);
+    });
+  }
+
+  private armWakeTimer(now: number): void {
+    const wakeAt = this.due.peek()?.dueAt ?? null;
+    if (wakeAt === this.wakeAt) return;
+
+    if (this.wakeTimer) clearTimeout(this.wakeTimer);
+    this.wakeTimer = null;
+    this.wakeAt = wakeAt;
+    if (wakeAt === null) return;
+
+    this.wakeTimer = setTimeout(() => {
+      this.wakeTimer = null;
+      this.wakeAt = null;
+      this.pump();
+    }, Math.max(wakeAt - now, 0));
+  }
+
+  /**
+   * Load registrations, then the deliveries still owed to them
+   */
+  private async loadFromStores(): Promise<void> {
+    for (const webhook of await this.store.load()) {
+      if (!this.webhooks.has(webhook.id)) {
+        this.webhooks.set(webhook.id, webhook);
+      }
+    }
+
+    for (const delivery of await this.deliveryStore.load()) {
+      if (this.deliveries.has(delivery.id)) continue;
+
+      if (!this.webhooks.has(delivery.webhookId)) {
+        await this.deliveryStore.remove(delivery.id);
+        continue;
+      }
+      this.deliveries.set(delivery.id, delivery);
+      this.due.push({ delivery, dueAt: new Date(delivery.nextAttemptAt).getTime() });
+    }
+
+    this.pump();
+  }
+
+  /**
+   * Make a single delivery attempt and record it in the history
+   * Network errors, timeouts and non-2xx responses all count as failures
    */
   private async attemptDelivery(
     webhook: WebhookConfig,
     event: Event,
     retryCount: number
   ): Promise<WebhookDeliveryResult> {
+    const startedAt = Date.now();
+    let result: WebhookDeliveryResult;
+
     try {
-      // In a real implementation, this would make an HTTP request
-      // For mock purposes, we simulate the delivery
-      const success = await this.simulateDelivery(webhook, event);
+      const response = await this.sendRequest(webhook, event);
+      const success = response.statusCode >= 200 && response.statusCode < 300;
 
-      const result: WebhookDeliveryResult = {
+      result = {
         webhookId: webhook.id,
+        eventId: event.id,
         success,
-        statusCode: success ? 200 : 500,
+        statusCode: response.statusCode,
+        responseBody: response.body,
+        error: success ? undefined : `HTTP ${response.statusCode}`,
         retryCount,
+        durationMs: Date.now() - startedAt,
         deliveredAt: new Date().toISOString(),
       };
-
-      this.recordDelivery(result);
-
-      if (!success && retryCount < webhook.retryCount) {
-        // Retry with exponential backoff
-        await this.delay(Math.pow(2, retryCount) * 1000);
-        return this.attemptDelivery(webhook, event, retryCount + 1);
-      }
-
-      return result;
     } catch (error) {
-      const result: WebhookDeliveryResult = {
+      result = {
         webhookId: webhook.id,
+        eventId: event.id,
         success: false,
         error: error instanceof Error ? error.message : "Unknown error",
         retryCount,
+        durationMs: Date.now() - startedAt,
         deliveredAt: new Date().toISOString(),
       };
+    }
 
-      this.recordDelivery(result);
-
-      if (retryCount < webhook.retryCount) {
-        await this.delay(Math.pow(2, retryCount) * 1000);
-        return this.attemptDelivery(webhook, event, retryCount + 1);
-      }
+    this.recordDelivery(result);
+    return result;
+  }
 
-      return result;
+  /**
+   * Build the request body and content headers: the rendered payload as JSON,
+   * or a CloudEvent carrying it when the webhook opted into CloudEvents
+   */
+  private encodeBody(webhook: WebhookConfig, event: Event): { headers: Record<string, string>; body: string } {
+    if (webhook.cloudEvents) {
+      const data = webhook.payloadTemplate ? renderWebhookPayload(webhook.payloadTemplate, event) : event.payload;
+      return encodeCloudEventHttp(toCloudEvent(event, data), webhook.cloudEvents);
     }
+
+    return {
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(renderWebhookPayload(webhook.payloadTemplate, event)),
+    };
   }
 
   /**
-   * Simulate webhook delivery (mock implementation)
+   * POST the event to the webhook URL, signing the body when the webhook has a secret
+   * Each attempt is signed with a fresh timestamp; the event ID header stays the same across retries
    */
-  private async simulateDelivery(webhook: WebhookConfig, event: Event): Promise<boolean> {
-    // Simulate network delay
-    await this.delay(50 + Math.random() * 100);
+  private async sendRequest(webhook: WebhookConfig, event: Event): Promise<{ statusCode: number; body: string }> {
+    const { headers: contentHeaders, body } = this.encodeBody(webhook, event);
+    const timestamp = Math.floor(Date.now() / 1000);
+    const headers: Record<string, string> = {
+      ...contentHeaders,
+      [WEBHOOK_HEADERS.timestamp]: String(timestamp),
+      [WEBHOOK_HEADERS.eventId]: event.id,
+      [WEBHOOK_HEADERS.eventType]: event.type,
+      [WEBHOOK_HEADERS.webhookId]: webhook.id,
+    };
+    if (webhook.secret) {
+      headers[WEBHOOK_HEADERS.signature] = signWebhookPayload(webhook.secret, timestamp, body);
+    }
 
-    // Simulate 95% success rate
-    return Math.random() > 0.05;
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), webhook.timeout);
+
+    try {
+      const response = await fetch(webhook.url, {
+        method: "POST",
+        headers,
+        body,
+        signal: controller.signal,
+        redirect: "manual",
+      });
+      const text = await response.text();
+      return { statusCode: response.status, body: text.slice(0, MAX_RESPONSE_SNIPPET) };
+    } catch (error) {
+      if (controller.signal.aborted) {
+        throw new Error(`Request timed out after ${webhook.timeout}ms`);
+      }
+      // fetch reports connection failures as "fetch failed" with the real reason as the cause
+      if (error instanceof Error && error.cause instanceof Error) {
+        throw new Error(`${error.message}: ${error.cause.message}`);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
   }
 
   /**
@@ -226,10 +694,12 @@ export class WebhookHandler {
   }
 
   /**
-   * Delay helper
+   * Write a registration to the webhook store; failures are logged, not thrown
    */
-  private delay(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
+  private persist(config: WebhookConfig): void {
+    this.store.save(config).catch((error) => {
+      console.error(`Failed to persist webhook ${config.id}:`, error);
+    });
   }
 }
 
@@ -238,11 +708,22 @@ let webhookHandlerInstance: WebhookHandler | null = null;
 
 export function getWebhookHandler(): WebhookHandler {
   if (!webhookHandlerInstance) {
-    webhookHandlerInstance = new WebhookHandler();
+    webhookHandlerInstance = new WebhookHandler(createWebhookStore(), createWebhookDeliveryStore());
+    webhookHandlerInstance.restore().catch((error) => {
+      console.error("Failed to restore webhooks:", error);
+    });
   }
   return webhookHandlerInstance;
 }
 
+/**
+ * Webhook configuration safe to return from the API: the secret is replaced by whether one is set
+ */
+export function redactWebhookSecret(config: WebhookConfig): Omit<WebhookConfig, "secret"> & { hasSecret: boolean } {
+  const { secret, ...rest } = config;
+  return { ...rest, hasSecret: Boolean(secret) };
+}
+
 /**
  * Create a webhook configuration
  */
@@ -252,8 +733,12 @@ export function createWebhookConfig(
   options?: {
     id?: string;
     secret?: string;
+    active?: boolean;
     retryCount?: number;
     timeout?: number;
+    filter?: string;
+    payloadTemplate?: WebhookPayloadTemplate;
+    cloudEvents?: CloudEventsMode;
   }
 ): WebhookConfig {
   const now = new Date().toISOString();
@@ -262,9 +747,12 @@ export function createWebhookConfig(
     url,
     events,
     secret: options?.secret,
-    active: true,
-    retryCount: options?.retryCount || 3,
-    timeout: options?.timeout || 5000,
+    active: options?.active ?? true,
+    retryCount: options?.retryCount ?? 3,
+    timeout: options?.timeout ?? 5000,
+    filter: options?.filter,
+    payloadTemplate: options?.payloadTemplate,
+    cloudEvents: options?.cloudEvents,
     createdAt: now,
     updatedAt: now,
   };
@@ -0,0 +1,102 @@
+import { Event, WebhookPayloadTemplate } from "@/types/events";
+import { getValueAtPath } from "./filter-expression";
+
+const PLACEHOLDER = /\{\{\s*([A-Za-z_$][\w$]*(?:\.[A-Za-z_$][\w$]*)*)\s*\}\}/g;
+const WHOLE_PLACEHOLDER = /^\{\{\s*([A-Za-z_$][\w$]*(?:\.[A-Za-z_$][\w$]*)*)\s*\}\}$/;
+
+const DEFAULT_SLACK_TEXT = "*{{type}}* from {{source}}";
+
+// Slack allows at most 10 fields in a section block
+const MAX_SLACK_FIELDS = 10;
+
+/**
+ * Build the body sent to a webhook endpoint
+ *
+ * - `event` (or no template): the raw event
+ * - `fields`: only the listed dotted paths, nested as in the event
+ * - `template`: any JSON value; strings are interpolated, and a string that is exactly one
+ *   placeholder is replaced by the raw value so numbers and objects keep their type
+ * - `slack`: an incoming-webhook message with the interpolated text and the payload's scalar fields
+ */
+export function renderWebhookPayload(template: WebhookPayloadTemplate | undefined, event: Event): unknown {
+  switch (template?.format) {
+    case undefined:
+    case "event":
+      return event;
+    case "fields":
+      return projectFields(event, template.fields);
+    case "template":
+      return renderTemplateValue(template.template, event);
+    case "slack":
+      return renderSlackMessage(event, template.text || DEFAULT_SLACK_TEXT);
+  }
+}
+
+/**
+ * Interpolate {{path}} placeholders in a string; missing values render as empty strings
+ */
+export function interpolateTemplate(template: string, event: Event): string {
+  return template.replace(PLACEHOLDER, (_, path: string) => formatValue(getValueAtPath(event, path)));
+}
+
+function projectFields(event: Event, fields: string[]): Record<string, unknown> {
+  const projected: Record<string, unknown> = {};
+
+  for (const field of fields) {
+    const value = getValueAtPath(event, field);
+    if (value === undefined) continue;
+
+    const segments = field.split(".");
+    let target = projected;
+    for (const segment of segments.slice(0, -1)) {
+      if (typeof target[segment] !== "object" || target[segment] === null) {
+        target[segment] = {};
+      }
+      target = target[segment] as Record<string, unknown>;
+    }
+    target[segments[segments.length - 1]] = value;
+  }
+
+  return projected;
+}
+
+function renderTemplateValue(value: unknown, event: Event): unknown {
+  if (typeof value === "string") {
+    const whole = WHOLE_PLACEHOLDER.exec(value);
+    return whole ? (getValueAtPath(event, whole[1]) ?? null) : interpolateTemplate(value, event);
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => renderTemplateValue(item, event));
+  }
+  if (value !== null && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, renderTemplateValue(item, event)])
+    );
+  }
+  return value;
+}
+
+function renderSlackMessage(event: Event, textTemplate: string): Record<string, unknown> {
+  const text = interpolateTemplate(textTemplate, event);
+  const fields = Object.entries(event.payload as Record<string, unknown>)
+    .filter(([, value]) => value === null || typeof value !== "object")
+    .slice(0, MAX_SLACK_FIELDS)
+    .map(([key, value]) => ({ type: "mrkdwn", text: `*${key}*\n${formatValue(value)}` }));
+
+  const blocks: Record<string, unknown>[] = [{ type: "section", text: { type: "mrkdwn", text } }];
+  if (fields.length > 0) {
+    blocks.push({ type: "section", fields });
+  }
+  blocks.push({
+    type: "context",
+    elements: [{ type: "mrkdwn", text: `${event.type} · ${event.id} · ${event.timestamp}` }],
+  });
+
+  // text is the notification fallback when blocks are shown
+  return { text, blocks };
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
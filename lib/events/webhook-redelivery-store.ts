@@ -0,0 +1,67 @@
+import path from "path";
+import { IWebhookRedeliveryJobStore, WebhookRedeliveryJob, WebhookRedeliveryJobSchema } from "@/types/events";
+import { JsonSnapshotFile } from "./file-stores";
+
+/**
+ * In-memory webhook redelivery job store
+ */
+export class InMemoryWebhookRedeliveryJobStore implements IWebhookRedeliveryJobStore {
+  protected jobs: Map<string, WebhookRedeliveryJob> = new Map();
+
+  async load(): Promise<WebhookRedeliveryJob[]> {
+    return Array.from(this.jobs.values());
+  }
+
+  async save(job: WebhookRedeliveryJob): Promise<void> {
+    this.jobs.set(job.id, job);
+  }
+
+  async remove(jobId: string): Promise<void> {
+    this.jobs.delete(jobId);
+  }
+}
+
+/**
+ * File-backed webhook redelivery job store
+ * Only a capped number of jobs is kept, so the whole set is rewritten on every change
+ */
+export class FileWebhookRedeliveryJobStore extends InMemoryWebhookRedeliveryJobStore {
+  private file: JsonSnapshotFile<WebhookRedeliveryJob>;
+
+  constructor(filePath: string) {
+    super();
+    this.file = new JsonSnapshotFile(filePath, WebhookRedeliveryJobSchema, (jobs) =>
+      jobs.forEach((job) => this.jobs.set(job.id, job))
+    );
+  }
+
+  async load(): Promise<WebhookRedeliveryJob[]> {
+    await this.file.ensureLoaded();
+    return super.load();
+  }
+
+  async save(job: WebhookRedeliveryJob): Promise<void> {
+    await this.file.ensureLoaded();
+    await super.save(job);
+    await this.file.write(Array.from(this.jobs.values()));
+  }
+
+  async remove(jobId: string): Promise<void> {
+    await this.file.ensureLoaded();
+    await super.remove(jobId);
+    await this.file.write(Array.from(this.jobs.values()));
+  }
+}
+
+/**
+ * Create the configured webhook redelivery job store
+ * EVENT_STORE=memory keeps jobs in memory only; otherwise they are written to WEBHOOK_REDELIVERY_STORE_PATH
+ */
+export function createWebhookRedeliveryJobStore(): IWebhookRedeliveryJobStore {
+  if (process.env.EVENT_STORE === "memory") {
+    return new InMemoryWebhookRedeliveryJobStore();
+  }
+  return new FileWebhookRedeliveryJobStore(
+    process.env.WEBHOOK_REDELIVERY_STORE_PATH || path.join(process.cwd(), ".data", "webhook-redeliveries.json")
+  );
+}
@@ -0,0 +1,127 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { WebhookConfig, WebhookRedeliveryJob } from "@/types/events";
+import { EventBus } from "./event-bus";
+import { createWebhookConfig, WebhookHandler } from "./webhook-handlers";
+import { WebhookRedeliveryService } from "./webhook-redelivery";
+import { InMemoryWebhookRedeliveryJobStore } from "./webhook-redelivery-store";
+
+describe("WebhookRedeliveryService", () => {
+  let eventBus: EventBus;
+  let handler: WebhookHandler;
+  let webhook: WebhookConfig;
+  let deliveredIds: string[];
+
+  beforeEach(async () => {
+    deliveredIds = [];
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async (_url: string, init: RequestInit) => {
+        deliveredIds.push((init.headers as Record<string, string>)["X-Webhook-Event-Id"]);
+        return new Response("ok", { status: 200 });
+      })
+    );
+
+    eventBus = new EventBus();
+    handler = new WebhookHandler();
+    webhook = createWebhookConfig("https://example.test/redeliver", ["ticket.created", "ticket.closed"], {
+      filter: 'payload.category != "ignored"',
+    });
+    handler.registerWebhook(webhook);
+
+    await eventBus.publish(eventBus.createEvent("ticket.created", { ticketId: "t-1", category: "it" }, "tests"));
+    await eventBus.publish(eventBus.createEvent("ticket.updated", { ticketId: "t-1" }, "tests"));
+    await eventBus.publish(eventBus.createEvent("ticket.created", { ticketId: "t-2", category: "ignored" }, "tests"));
+    await eventBus.publish(eventBus.createEvent("ticket.closed", { ticketId: "t-1" }, "tests"));
+  });
+
+  afterEach(() => {
+    handler.unregisterWebhook(webhook.id);
+    vi.unstubAllGlobals();
+  });
+
+  const since = () => new Date(Date.now() - 60 * 1000);
+
+  async function waitUntilFinished(service: WebhookRedeliveryService, jobId: string): Promise<WebhookRedeliveryJob> {
+    await vi.waitFor(() => expect(service.getJob(jobId)?.status).not.toBe("running"));
+    return service.getJob(jobId)!;
+  }
+
+  it("re-sends the stored events the webhook subscribes to, with their original IDs", async () => {
+    const service = new WebhookRedeliveryService(handler, eventBus);
+    const stored = await eventBus.readStored();
+
+    const result = await service.start({ webhookId: webhook.id, startDate: since(), ratePerSecond: 100 });
+    expect(result.status).toBe("started");
+    if (result.status !== "started") return;
+
+    const job = await waitUntilFinished(service, result.job.id);
+    expect(job).toMatchObject({ status: "completed", scanned: 4, processed: 2, delivered: 2, failed: 0, skipped: 2 });
+    expect(deliveredIds).toEqual([stored[0].event.id, stored[3].event.id]);
+  });
+
+  it("narrows to the requested event types", async () => {
+    const service = new WebhookRedeliveryService(handler, eventBus);
+
+    const result = await service.start({
+      webhookId: webhook.id,
+      startDate: since(),
+      eventTypes: ["ticket.closed"],
+      ratePerSecond: 100,
+    });
+    if (result.status !== "started") throw new Error(`Unexpected ${result.status}`);
+
+    const job = await waitUntilFinished(service, result.job.id);
+    expect(job).toMatchObject({ status: "completed", scanned: 1, delivered: 1 });
+  });
+
+  it("runs one job per webhook at a time", async () => {
+    const service = new WebhookRedeliveryService(handler, eventBus);
+
+    const first = await service.start({ webhookId: webhook.id, startDate: since(), ratePerSecond: 5 });
+    const second = await service.start({ webhookId: webhook.id, startDate: since(), ratePerSecond: 5 });
+    if (first.status !== "started") throw new Error(`Unexpected ${first.status}`);
+
+    expect(second).toEqual({ status: "already_running", job: first.job });
+    expect(service.listJobs(webhook.id)).toHaveLength(1);
+
+    service.cancel(first.job.id);
+    expect(await waitUntilFinished(service, first.job.id)).toMatchObject({ status: "cancelled" });
+
+    const third = await service.start({ webhookId: webhook.id, startDate: since(), ratePerSecond: 100 });
+    expect(third.status).toBe("started");
+    if (third.status === "started") await waitUntilFinished(service, third.job.id);
+  });
+
+  it("refuses unknown webhooks", async () => {
+    const service = new WebhookRedeliveryService(handler, eventBus);
+
+    expect(await service.start({ webhookId: "missing", startDate: since() })).toEqual({ status: "webhook_not_found" });
+  });
+
+  it("resumes a running job from its stored offset on restore", async () => {
+    const store = new InMemoryWebhookRedeliveryJobStore();
+    const stored = await eventBus.readStored();
+    await store.save({
+      id: "redelivery-restored",
+      webhookId: webhook.id,
+      status: "running",
+      startDate: since().toISOString(),
+      ratePerSecond: 100,
+      nextOffset: stored[2].offset,
+      endOffset: stored[3].offset,
+      scanned: 2,
+      processed: 1,
+      delivered: 1,
+      failed: 0,
+      skipped: 1,
+      startedAt: new Date().toISOString(),
+    });
+
+    const service = new WebhookRedeliveryService(handler, eventBus, store);
+    await service.restore();
+
+    const job = await waitUntilFinished(service, "redelivery-restored");
+    expect(job).toMatchObject({ status: "completed", scanned: 4, delivered: 2, skipped: 2 });
+    expect(deliveredIds).toEqual([stored[3].event.id]);
+  });
+});
@@ -0,0 +1,258 @@
+import { EventType, IWebhookRedeliveryJobStore, WebhookRedeliveryJob } from "@/types/events";
+import { EventBus, getEventBus } from "./event-bus";
+import { getWebhookHandler, WebhookHandler } from "./webhook-handlers";
+import { createWebhookRedeliveryJobStore, InMemoryWebhookRedeliveryJobStore } from "./webhook-redelivery-store";
+
+const DEFAULT_RATE_PER_SECOND = 10;
+const MAX_RATE_PER_SECOND = 100;
+
+// Stored events read per page, so a long range is never held in memory at once
+const PAGE_SIZE = 500;
+
+// Finished jobs kept for inspection beyond this many are dropped, oldest first
+const MAX_FINISHED_JOBS = 100;
+
+/**
+ * Stored events to re-send to one webhook
+ */
+export interface WebhookRedeliveryRequest {
+  webhookId: string;
+  startDate: Date;
+  endDate?: Date;
+  // Narrows the webhook's own event types; omit to redeliver all of them
+  eventTypes?: EventType[];
+  // Deliveries started per second
+  ratePerSecond?: number;
+}
+
+/**
+ * Outcome of starting a redelivery
+ * A webhook has at most one running job, so two jobs never double its delivery rate
+ */
+export type WebhookRedeliveryStartResult =
+  | { status: "started"; job: WebhookRedeliveryJob }
+  | { status: "webhook_not_found" }
+  | { status: "already_running"; job: WebhookRedeliveryJob };
+
+/**
+ * Re-sends stored events to a single webhook, e.g. after the consumer was down
+ * Events are read from the event store a page at a time, oldest first, and delivered one at a
+ * time at the requested rate, so the consumer is not flooded. Each keeps its original event ID
+ * header, letting consumers discard events they already received. Jobs record the offset they
+ * reached, and running jobs resume from it when the service is restored after a restart.
+ */
+export class WebhookRedeliveryService {
+  private jobs: Map<string, WebhookRedeliveryJob> = new Map();
+  private cancelled: Set<string> = new Set();
+  private restorePromise: Promise<void> | null = null;
+
+  constructor(
+    private webhookHandler: WebhookHandler = getWebhookHandler(),
+    private eventBus: EventBus = getEventBus(),
+    private store: IWebhookRedeliveryJobStore = new InMemoryWebhookRedeliveryJobStore()
+  ) {}
+
+  /**
+   * Load persisted jobs once and resume those that were running
+   */
+  restore(): Promise<void> {
+    if (!this.restorePromise) {
+      this.restorePromise = this.loadFromStore();
+    }
+    return this.restorePromise;
+  }
+
+  /**
+   * Start a redelivery job in the background and return it
+   * Refused while another job for the same webhook is running
+   */
+  async start(request: WebhookRedeliveryRequest): Promise<WebhookRedeliveryStartResult> {
+    if (!this.webhookHandler.getWebhook(request.webhookId)) return { status: "webhook_not_found" };
+
+    const endOffset = await this.eventBus.getLatestOffset();
+    // Checked after the last await, so concurrent starts cannot both pass
+    const running = this.getRunningJob(request.webhookId);
+    if (running) return { status: "already_running", job: running };
+
+    const ratePerSecond = Math.min(request.ratePerSecond || DEFAULT_RATE_PER_SECOND, MAX_RATE_PER_SECOND);
+    const job: WebhookRedeliveryJob = {
+      id: `redelivery-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      webhookId: request.webhookId,
+      status: "running",
+      startDate: request.startDate.toISOString(),
+      endDate: request.endDate?.toISOString(),
+      eventTypes: request.eventTypes,
+      ratePerSecond,
+      nextOffset: 0,
+      endOffset,
+      scanned: 0,
+      processed: 0,
+      delivered: 0,
+      failed: 0,
+      skipped: 0,
+      startedAt: new Date().toISOString(),
+    };
+    this.jobs.set(job.id, job);
+    await this.store.save(job);
+
+    this.runInBackground(job);
+    return { status: "started", job };
+  }
+
+  /**
+   * Get a job by ID
+   */
+  getJob(jobId: string): WebhookRedeliveryJob | undefined {
+    return this.jobs.get(jobId);
+  }
+
+  /**
+   * Get the running job for a webhook, if any
+   */
+  getRunningJob(webhookId: string): WebhookRedeliveryJob | undefined {
+    return Array.from(this.jobs.values()).find((job) => job.webhookId === webhookId && job.status === "running");
+  }
+
+  /**
+   * List jobs, most recent first, optionally for one webhook
+   */
+  listJobs(webhookId?: string): WebhookRedeliveryJob[] {
+    return Array.from(this.jobs.values())
+      .filter((job) => !webhookId || job.webhookId === webhookId)
+      .reverse();
+  }
+
+  /**
+   * Stop a running job after its current delivery
+   */
+  cancel(jobId: string): WebhookRedeliveryJob | undefined {
+    const job = this.jobs.get(jobId);
+    if (job?.status === "running") {
+      this.cancelled.add(jobId);
+    }
+    return job;
+  }
+
+  private async loadFromStore(): Promise<void> {
+    await this.webhookHandler.restore();
+
+    for (const job of await this.store.load()) {
+      if (this.jobs.has(job.id)) continue;
+      this.jobs.set(job.id, job);
+      if (job.status === "running") {
+        this.runInBackground(job);
+      }
+    }
+  }
+
+  private runInBackground(job: WebhookRedeliveryJob): void {
+    this.run(job).catch((error) => {
+      this.finish(job, "failed", error instanceof Error ? error.message : "Unknown error");
+    });
+  }
+
+  private async run(job: WebhookRedeliveryJob): Promise<void> {
+    const interval = 1000 / job.ratePerSecond;
+
+    while (job.nextOffset <= job.endOffset) {
+      const page = (
+        await this.eventBus.readStored({
+          fromOffset: job.nextOffset,
+          startDate: new Date(job.startDate),
+          endDate: job.endDate ? new Date(job.endDate) : undefined,
+          eventTypes: job.eventTypes,
+          limit: PAGE_SIZE,
+        })
+      ).filter((stored) => stored.offset <= job.endOffset);
+      if (page.length === 0) break;
+
+      for (const { offset, event } of page) {
+        if (this.cancelled.has(job.id)) {
+          this.finish(job, "cancelled");
+          return;
+        }
+
+        const webhook = this.webhookHandler.getWebhook(job.webhookId);
+        if (!webhook?.active) {
+          this.finish(job, "failed", webhook ? "Webhook was deactivated" : "Webhook was removed");
+          return;
+        }
+
+        job.scanned++;
+        job.nextOffset = offset + 1;
+        job.lastEventTimestamp = event.timestamp;
+
+        if (!this.webhookHandler.matchesWebhook(webhook, event)) {
+          job.skipped++;
+          continue;
+        }
+
+        const startedAt = Date.now();
+        const result = await this.webhookHandler.deliverToWebhook(job.webhookId, event);
+
+        job.processed++;
+        if (result.success) {
+          job.delivered++;
+        } else {
+          job.failed++;
+        }
+        await this.store.save(job);
+
+        await this.delay(interval - (Date.now() - startedAt));
+      }
+      await this.store.save(job);
+    }
+
+    this.finish(job, "completed");
+  }
+
+  private finish(job: WebhookRedeliveryJob, status: WebhookRedeliveryJob["status"], error?: string): void {
+    job.status = status;
+    job.error = error;
+    job.finishedAt = new Date().toISOString();
+    this.cancelled.delete(job.id);
+
+    if (status === "failed") {
+      console.error(`Webhook redelivery ${job.id} stopped: ${error}`);
+    }
+    this.persist(job);
+    this.pruneFinishedJobs();
+  }
+
+  private pruneFinishedJobs(): void {
+    const finished = Array.from(this.jobs.values()).filter((job) => job.status !== "running");
+    finished.slice(0, Math.max(finished.length - MAX_FINISHED_JOBS, 0)).forEach((job) => {
+      this.jobs.delete(job.id);
+      this.store.remove(job.id).catch((error) => {
+        console.error(`Failed to remove webhook redelivery ${job.id}:`, error);
+      });
+    });
+  }
+
+  private persist(job: WebhookRedeliveryJob): void {
+    this.store.save(job).catch((error) => {
+      console.error(`Failed to persist webhook redelivery ${job.id}:`, error);
+    });
+  }
+
+  private delay(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, Math.max(ms, 0)));
+  }
+}
+
+// Singleton instance
+let redeliveryServiceInstance: WebhookRedeliveryService | null = null;
+
+export function getWebhookRedeliveryService(): WebhookRedeliveryService {
+  if (!redeliveryServiceInstance) {
+    redeliveryServiceInstance = new WebhookRedeliveryService(
+      getWebhookHandler(),
+      getEventBus(),
+      createWebhookRedeliveryJobStore()
+    );
+    redeliveryServiceInstance.restore().catch((error) => {
+      console.error("Failed to restore webhook redeliveries:", error);
+    });
+  }
+  return redeliveryServiceInstance;
+}
@@ -0,0 +1,65 @@
+import path from "path";
+import { IWebhookStore, WebhookConfig, WebhookConfigSchema } from "@/types/events";
+import { JsonSnapshotFile } from "./file-stores";
+
+/**
+ * In-memory webhook store
+ */
+export class InMemoryWebhookStore implements IWebhookStore {
+  protected webhooks: Map<string, WebhookConfig> = new Map();
+
+  async load(): Promise<WebhookConfig[]> {
+    return Array.from(this.webhooks.values());
+  }
+
+  async save(config: WebhookConfig): Promise<void> {
+    this.webhooks.set(config.id, config);
+  }
+
+  async remove(webhookId: string): Promise<void> {
+    this.webhooks.delete(webhookId);
+  }
+}
+
+/**
+ * File-backed webhook store
+ * Registrations are few and rarely change, so the whole set is rewritten on every change
+ */
+export class FileWebhookStore extends InMemoryWebhookStore {
+  private file: JsonSnapshotFile<WebhookConfig>;
+
+  constructor(filePath: string) {
+    super();
+    this.file = new JsonSnapshotFile(filePath, WebhookConfigSchema, (webhooks) =>
+      webhooks.forEach((webhook) => this.webhooks.set(webhook.id, webhook))
+    );
+  }
+
+  async load(): Promise<WebhookConfig[]> {
+    await this.file.ensureLoaded();
+    return super.load();
+  }
+
+  async save(config: WebhookConfig): Promise<void> {
+    await this.file.ensureLoaded();
+    await super.save(config);
+    await this.file.write(Array.from(this.webhooks.values()));
+  }
+
+  async remove(webhookId: string): Promise<void> {
+    await this.file.ensureLoaded();
+    await super.remove(webhookId);
+    await this.file.write(Array.from(this.webhooks.values()));
+  }
+}
+
+/**
+ * Create the configured webhook store
+ * EVENT_STORE=memory keeps registrations in memory only; otherwise they are written to WEBHOOK_STORE_PATH
+ */
+export function createWebhookStore(): IWebhookStore {
+  if (process.env.EVENT_STORE === "memory") {
+    return new InMemoryWebhookStore();
+  }
+  return new FileWebhookStore(process.env.WEBHOOK_STORE_PATH || path.join(process.cwd(), ".data", "webhooks.json"));
+}
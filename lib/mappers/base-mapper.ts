@@ -208,6 +208,17 @@ export const transformUtils = {
     return str.replace(/[A-Z]/g, (letter) => `_${letter.toLowerCase()}`);
   },
 
+  /**
+   * Convert object keys from snake_case to camelCase, recursing into nested objects and arrays
+   */
+  keysToCamel: (value: unknown): unknown => {
+    if (Array.isArray(value)) return value.map(transformUtils.keysToCamel);
+    if (value === null || typeof value !== "object") return value;
+    return Object.fromEntries(
+      Object.entries(value).map(([key, nested]) => [transformUtils.snakeToCamel(key), transformUtils.keysToCamel(nested)])
+    );
+  },
+
   /**
    * Parse ISO date string to Date object
    */
@@ -1,6 +1,7 @@
-import { ServiceResponse, QueryParams, PaginatedResponse } from "@/types";
+import { ServiceResponse, QueryParams, PaginatedResponse, DomainEvent } from "@/types";
 import { DataSourceConfig, IDataSource, MockDataSource } from "@/lib/data-sources";
 import { IMapper, IdentityMapper } from "@/lib/mappers";
+import { getEventBus } from "@/lib/events/event-bus";
 
 /**
  * Base service client interface
@@ -45,6 +46,7 @@ export interface IServiceClient<T> {
 /**
  * Base service client implementation
  * Provides common functionality for all service clients
+ * Mutations publish the domain events returned by the eventsFor* hooks
  */
 export abstract class BaseServiceClient<T extends { id: string }> implements IServiceClient<T> {
   protected dataSource: IDataSource<T>;
@@ -108,33 +110,95 @@ export abstract class BaseServiceClient<T extends { id: string }> implements ISe
   async create(data: Partial<T>): Promise<ServiceResponse<T>> {
     const result = await this.dataSource.create(data);
     if (result.success && result.data) {
+      const created = this.mapper.toTarget(result.data);
+      await this.emitEvents(this.eventsForCreate(created));
       return {
         ...result,
-        data: this.mapper.toTarget(result.data),
+        data: created,
       };
     }
     return result;
   }
 
   async update(id: string, data: Partial<T>): Promise<ServiceResponse<T>> {
+    const existing = await this.dataSource.findById(id);
     const result = await this.dataSource.update(id, data);
     if (result.success && result.data) {
+      const before = existing.success && existing.data ? this.mapper.toTarget(existing.data) : undefined;
+      const after = this.mapper.toTarget(result.data);
+      await this.emitEvents(this.eventsForUpdate(before, after));
       return {
         ...result,
-        data: this.mapper.toTarget(result.data),
+        data: after,
       };
     }
     return result;
   }
 
   async delete(id: string): Promise<ServiceResponse<void>> {
-    return this.dataSource.delete(id);
+    const existing = await this.dataSource.findById(id);
+    const result = await this.dataSource.delete(id);
+    if (result.success && existing.success && existing.data) {
+      await this.emitEvents(this.eventsForDelete(this.mapper.toTarget(existing.data)));
+    }
+    return result;
   }
 
   async execute<R>(operation: string, params?: Record<string, unknown>): Promise<ServiceResponse<R>> {
     return this.dataSource.execute<R>(operation, params);
   }
 
+  /**
+   * Domain events to publish after an entity is created
+   */
+  protected eventsForCreate(_created: T): DomainEvent[] {
+    return [];
+  }
+
+  /**
+   * Domain events to publish after an entity is updated
+   */
+  protected eventsForUpdate(_before: T | undefined, _after: T): DomainEvent[] {
+    return [];
+  }
+
+  /**
+   * Domain events to publish after an entity is deleted
+   */
+  protected eventsForDelete(_deleted: T): DomainEvent[] {
+    return [];
+  }
+
+  /**
+   * Event source name, derived from the data source ID (e.g. "ticketing-datasource" -> "ticketing")
+   */
+  protected get eventSource(): string {
+    return this.config.id.split("-")[0];
+  }
+
+  /**
+   * Publish domain events; failures are logged so they never fail the mutation itself
+   * Publishing is awaited, so the mutation responds only after handlers have run: slower, but a
+   * caller that reads right after sees the effects of its own events
+   */
+  protected async emitEvents(events: DomainEvent[]): Promise<void> {
+    const eventBus = getEventBus();
+    for (const { type, payload } of events) {
+      try {
+        await eventBus.publish(eventBus.createEvent(type, payload, this.eventSource));
+      } catch (error) {
+        console.error(`Failed to emit ${type} from ${this.eventSource}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Check whether a field changed between two entity versions
+   */
+  protected changed<K extends keyof T>(before: T | undefined, after: T, field: K): boolean {
+    return !before || before[field] !== after[field];
+  }
+
   /**
    * Generate a unique ID
    */
@@ -1,4 +1,5 @@
 import { Employee, HiringRequisition, ServiceResponse } from "@/types/services";
+import { DomainEvent } from "@/types/events";
 import { BaseServiceClient } from "./base-client";
 import { getDataSourceConfig } from "@/lib/data-sources/config";
 import { generateMockEmployees, generateMockHiringRequisitions } from "@/lib/data-sources/mock-providers";
@@ -12,6 +13,15 @@ export class H2REmployeeClient extends BaseServiceClient<Employee> {
     super(getDataSourceConfig("h2r"), generateMockEmployees(20));
   }
 
+  protected eventsForCreate(employee: Employee): DomainEvent[] {
+    return [
+      {
+        type: "h2r.employee.onboarded",
+        payload: { employeeId: employee.id, department: employee.department, after: employee },
+      },
+    ];
+  }
+
   /**
    * Get employees by department
    */
@@ -66,6 +76,37 @@ export class H2RRequisitionClient extends BaseServiceClient<HiringRequisition> {
     );
   }
 
+  protected eventsForCreate(requisition: HiringRequisition): DomainEvent[] {
+    return [
+      {
+        type: "h2r.requisition.created",
+        payload: {
+          requisitionId: requisition.id,
+          department: requisition.department,
+          requestedBy: requisition.requestedBy,
+          title: requisition.title,
+          after: requisition,
+        },
+      },
+    ];
+  }
+
+  protected eventsForUpdate(before: HiringRequisition | undefined, after: HiringRequisition): DomainEvent[] {
+    if (!this.changed(before, after, "status")) return [];
+
+    const base = { requisitionId: after.id, before, after };
+    switch (after.status) {
+      case "approved":
+        return [{ type: "h2r.requisition.approved", payload: { ...base, department: after.department } }];
+      case "completed":
+        return [{ type: "h2r.requisition.completed", payload: { ...base, ticketIds: after.ticketIds } }];
+      case "cancelled":
+        return [{ type: "h2r.requisition.cancelled", payload: base }];
+      default:
+        return [];
+    }
+  }
+
   /**
    * Get requisitions by status
    */
@@ -1,4 +1,5 @@
 import { Course, CourseEnrollment, ServiceResponse } from "@/types/services";
+import { DomainEvent } from "@/types/events";
 import { BaseServiceClient } from "./base-client";
 import { getDataSourceConfig } from "@/lib/data-sources/config";
 import { generateMockCourses, generateMockEnrollments } from "@/lib/data-sources/mock-providers";
@@ -85,6 +86,42 @@ export class LMSEnrollmentClient extends BaseServiceClient<CourseEnrollment> {
     );
   }
 
+  protected eventsForCreate(enrollment: CourseEnrollment): DomainEvent[] {
+    return [
+      {
+        type: "lms.course.enrolled",
+        payload: {
+          enrollmentId: enrollment.id,
+          employeeId: enrollment.employeeId,
+          courseId: enrollment.courseId,
+          after: enrollment,
+        },
+      },
+    ];
+  }
+
+  protected eventsForUpdate(before: CourseEnrollment | undefined, after: CourseEnrollment): DomainEvent[] {
+    if (!this.changed(before, after, "status")) return [];
+
+    const base = {
+      enrollmentId: after.id,
+      employeeId: after.employeeId,
+      courseId: after.courseId,
+      before,
+      after,
+    };
+    switch (after.status) {
+      case "in_progress":
+        return [{ type: "lms.course.started", payload: base }];
+      case "completed":
+        return [{ type: "lms.course.completed", payload: { ...base, score: after.score } }];
+      case "dropped":
+        return [{ type: "lms.course.dropped", payload: base }];
+      default:
+        return [];
+    }
+  }
+
   /**
    * Get enrollments by employee
    */
@@ -5,6 +5,7 @@ import {
   SkillGap,
   ServiceResponse,
 } from "@/types/services";
+import { DomainEvent } from "@/types/events";
 import { BaseServiceClient } from "./base-client";
 import { getDataSourceConfig } from "@/lib/data-sources/config";
 import {
@@ -44,6 +45,29 @@ export class PerformanceMetricClient extends BaseServiceClient<PerformanceMetric
     );
   }
 
+  protected eventsForCreate(metric: PerformanceMetric): DomainEvent[] {
+    return [this.kpiUpdated(undefined, metric)];
+  }
+
+  protected eventsForUpdate(before: PerformanceMetric | undefined, after: PerformanceMetric): DomainEvent[] {
+    return [this.kpiUpdated(before, after)];
+  }
+
+  private kpiUpdated(before: PerformanceMetric | undefined, after: PerformanceMetric): DomainEvent {
+    return {
+      type: "performance.kpi.updated",
+      payload: {
+        employeeId: after.employeeId,
+        kpiId: after.kpiId,
+        metricId: after.id,
+        period: after.period,
+        actualValue: after.actualValue,
+        before,
+        after,
+      },
+    };
+  }
+
   /**
    * Get metrics by employee
    */
@@ -151,6 +175,20 @@ export class QualityAssessmentClient extends BaseServiceClient<QualityAssessment
     );
   }
 
+  protected eventsForCreate(assessment: QualityAssessment): DomainEvent[] {
+    return [
+      {
+        type: "performance.assessment.created",
+        payload: {
+          assessmentId: assessment.id,
+          employeeId: assessment.employeeId,
+          score: assessment.score,
+          after: assessment,
+        },
+      },
+    ];
+  }
+
   /**
    * Get assessments by employee
    */
@@ -269,6 +307,20 @@ export class SkillGapClient extends BaseServiceClient<SkillGap> {
     );
   }
 
+  protected eventsForCreate(skillGap: SkillGap): DomainEvent[] {
+    return [
+      {
+        type: "performance.skill_gap.identified",
+        payload: {
+          employeeId: skillGap.employeeId,
+          skillGapId: skillGap.id,
+          skillName: skillGap.skillName,
+          after: skillGap,
+        },
+      },
+    ];
+  }
+
   /**
    * Get skill gaps by employee
    */
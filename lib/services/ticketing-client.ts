@@ -1,4 +1,5 @@
 import { Ticket, TicketCategory, TicketPriority, ServiceResponse } from "@/types/services";
+import { DomainEvent } from "@/types/events";
 import { BaseServiceClient } from "./base-client";
 import { getDataSourceConfig } from "@/lib/data-sources/config";
 import { generateMockTickets } from "@/lib/data-sources/mock-providers";
@@ -12,6 +13,54 @@ export class TicketingClient extends BaseServiceClient<Ticket> {
     super(getDataSourceConfig("ticketing"), generateMockTickets(25));
   }
 
+  protected eventsForCreate(ticket: Ticket): DomainEvent[] {
+    return [
+      {
+        type: "ticket.created",
+        payload: {
+          ticketId: ticket.id,
+          category: ticket.category,
+          priority: ticket.priority,
+          relatedEntityId: ticket.relatedEntityId,
+          after: ticket,
+        },
+      },
+    ];
+  }
+
+  protected eventsForUpdate(before: Ticket | undefined, after: Ticket): DomainEvent[] {
+    const events: DomainEvent[] = [];
+    const base = { ticketId: after.id, relatedEntityId: after.relatedEntityId, before, after };
+
+    if (after.assigneeId && this.changed(before, after, "assigneeId")) {
+      events.push({ type: "ticket.assigned", payload: { ...base, assigneeId: after.assigneeId } });
+    }
+    if (after.status === "resolved" && this.changed(before, after, "status")) {
+      events.push({ type: "ticket.resolved", payload: base });
+    }
+    if (after.status === "closed" && this.changed(before, after, "status")) {
+      events.push({ type: "ticket.closed", payload: base });
+    }
+    if (events.length === 0) {
+      events.push({ type: "ticket.updated", payload: { ...base, changes: this.diff(before, after) } });
+    }
+
+    return events;
+  }
+
+  /**
+   * Fields that differ between two ticket versions
+   */
+  private diff(before: Ticket | undefined, after: Ticket): Record<string, unknown> {
+    const changes: Record<string, unknown> = {};
+    for (const key of Object.keys(after) as (keyof Ticket)[]) {
+      if (key !== "updatedAt" && JSON.stringify(before?.[key]) !== JSON.stringify(after[key])) {
+        changes[key] = after[key];
+      }
+    }
+    return changes;
+  }
+
   /**
    * Get tickets by category
    */
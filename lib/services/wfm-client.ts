@@ -1,4 +1,5 @@
 import { Shift, Attendance, ServiceResponse } from "@/types/services";
+import { DomainEvent } from "@/types/events";
 import { BaseServiceClient } from "./base-client";
 import { getDataSourceConfig } from "@/lib/data-sources/config";
 import { generateMockShifts, generateMockAttendance } from "@/lib/data-sources/mock-providers";
@@ -12,6 +13,32 @@ export class WFMShiftClient extends BaseServiceClient<Shift> {
     super(getDataSourceConfig("wfm"), generateMockShifts(50));
   }
 
+  protected eventsForCreate(shift: Shift): DomainEvent[] {
+    return [
+      {
+        type: "wfm.shift.scheduled",
+        payload: {
+          shiftId: shift.id,
+          employeeId: shift.employeeId,
+          date: shift.date,
+          startTime: shift.startTime,
+          endTime: shift.endTime,
+          after: shift,
+        },
+      },
+    ];
+  }
+
+  protected eventsForUpdate(before: Shift | undefined, after: Shift): DomainEvent[] {
+    if (after.status !== "completed" || !this.changed(before, after, "status")) return [];
+    return [
+      {
+        type: "wfm.shift.completed",
+        payload: { shiftId: after.id, employeeId: after.employeeId, date: after.date, before, after },
+      },
+    ];
+  }
+
   /**
    * Get shifts by employee
    */
@@ -117,6 +144,28 @@ export class WFMAttendanceClient extends BaseServiceClient<Attendance> {
     );
   }
 
+  protected eventsForCreate(attendance: Attendance): DomainEvent[] {
+    return [this.attendanceRecorded(undefined, attendance)];
+  }
+
+  protected eventsForUpdate(before: Attendance | undefined, after: Attendance): DomainEvent[] {
+    return [this.attendanceRecorded(before, after)];
+  }
+
+  private attendanceRecorded(before: Attendance | undefined, after: Attendance): DomainEvent {
+    return {
+      type: "wfm.attendance.recorded",
+      payload: {
+        attendanceId: after.id,
+        employeeId: after.employeeId,
+        date: after.date,
+        status: after.status,
+        before,
+        after,
+      },
+    };
+  }
+
   /**
    * Get attendance by employee
    */
@@ -56,6 +56,7 @@ export interface StoreState {
 
   // Event history
   eventHistory: Event[];
+  unreadEventCount: number;
 
   // Initialization flag
   initialized: boolean;
@@ -102,6 +103,7 @@ export interface StoreActions {
   // Event actions
   addEvent: (event: Event) => void;
   getEventsByType: (type: string) => Event[];
+  markEventsRead: () => void;
 }
 
 /**
@@ -120,6 +122,7 @@ const createInitialState = (): StoreState => ({
     qualityAssessments: new Map(),
     skillGaps: new Map(),
     eventHistory: [],
+    unreadEventCount: 0,
   initialized: false,
 });
 
@@ -340,14 +343,23 @@ export const useStore = create<StoreState & StoreActions>()(
 
     // Event actions
     addEvent: (event) => {
-      set((state) => ({
-        eventHistory: [...state.eventHistory, event].slice(-1000), // Keep last 1000 events
-      }));
+      set((state) => {
+        // Ignore duplicates delivered again after a stream reconnect
+        if (state.eventHistory.some((e) => e.id === event.id)) return state;
+        return {
+          eventHistory: [...state.eventHistory, event].slice(-1000), // Keep last 1000 events
+          unreadEventCount: state.unreadEventCount + 1,
+        };
+      });
     },
 
     getEventsByType: (type) => {
       return get().eventHistory.filter((e) => e.type === type);
     },
+
+    markEventsRead: () => {
+      set({ unreadEventCount: 0 });
+    },
   }))
 );
 
@@ -383,5 +395,6 @@ export const usePerformanceMetrics = createArraySelector<PerformanceMetric>((sta
 export const useQualityAssessments = createArraySelector<QualityAssessment>((state) => state.qualityAssessments);
 export const useSkillGaps = createArraySelector<SkillGap>((state) => state.skillGaps);
 export const useEventHistory = () => useStore((state) => state.eventHistory);
+export const useUnreadEventCount = () => useStore((state) => state.unreadEventCount);
 
 
@@ -1,2 +1,2 @@
 export * from "./in-memory-store";
-
+export * from "./use-event-stream";
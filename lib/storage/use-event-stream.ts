@@ -0,0 +1,61 @@
+import { useEffect, useState } from "react";
+import { Event } from "@/types/events";
+import { useStore } from "./in-memory-store";
+
+/**
+ * Event stream options
+ */
+export interface EventStreamOptions {
+  // Exact event types or patterns such as "ticket.*"
+  patterns?: string[];
+  enabled?: boolean;
+}
+
+/**
+ * Event stream connection state
+ */
+export interface EventStreamState {
+  connected: boolean;
+  lastEventId: string | null;
+}
+
+/**
+ * Subscribe to the server event stream and feed received events into the store
+ * EventSource reconnects automatically and resumes from the last received event ID
+ */
+export function useEventStream(options?: EventStreamOptions): EventStreamState {
+  const [state, setState] = useState<EventStreamState>({ connected: false, lastEventId: null });
+  const enabled = options?.enabled ?? true;
+  const patternsKey = (options?.patterns || []).join(",");
+
+  useEffect(() => {
+    if (!enabled || typeof window === "undefined" || typeof EventSource === "undefined") return;
+
+    const params = new URLSearchParams();
+    patternsKey
+      .split(",")
+      .filter(Boolean)
+      .forEach((pattern) => params.append("pattern", pattern));
+    const query = params.toString();
+    const source = new EventSource(`/api/events/stream${query ? `?${query}` : ""}`);
+
+    source.onmessage = (message: MessageEvent<string>) => {
+      try {
+        const event = JSON.parse(message.data) as Event;
+        useStore.getState().addEvent(event);
+        setState({ connected: true, lastEventId: message.lastEventId || null });
+      } catch (error) {
+        console.error("Failed to parse streamed event:", error);
+      }
+    };
+
+    source.onopen = () => setState((prev) => ({ ...prev, connected: true }));
+    source.onerror = () => setState((prev) => ({ ...prev, connected: false }));
+
+    return () => {
+      source.close();
+    };
+  }, [enabled, patternsKey]);
+
+  return state;
+}
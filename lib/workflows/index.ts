@@ -0,0 +1,22 @@
+// Workflow state persistence
+export * from "./state-store";
+
+// Per-key serialization of workflow steps
+export * from "./keyed-mutex";
+
+// Hiring requisition lifecycle saga
+export * from "./requisition-lifecycle";
+
+// Skill gap to training pipeline
+export * from "./skill-gap-training";
+
+import { getRequisitionLifecycleSaga } from "./requisition-lifecycle";
+import { getSkillGapTrainingPipeline } from "./skill-gap-training";
+
+/**
+ * Start all event-driven workflows
+ */
+export function startWorkflows(): void {
+  getRequisitionLifecycleSaga().start();
+  getSkillGapTrainingPipeline().start();
+}
@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import { KeyedMutex } from "./keyed-mutex";
+
+const tick = () => new Promise((resolve) => setTimeout(resolve, 5));
+
+describe("KeyedMutex", () => {
+  it("runs work for one key in call order and other keys concurrently", async () => {
+    const mutex = new KeyedMutex();
+    const log: string[] = [];
+    const step = (name: string) => async () => {
+      log.push(`${name}:start`);
+      await tick();
+      log.push(`${name}:end`);
+    };
+
+    await Promise.all([mutex.run("a", step("a1")), mutex.run("a", step("a2")), mutex.run("b", step("b1"))]);
+
+    expect(log.indexOf("a1:end")).toBeLessThan(log.indexOf("a2:start"));
+    expect(log.indexOf("b1:start")).toBeLessThan(log.indexOf("a1:end"));
+  });
+
+  it("runs queued work after a failure and rejects only the failing caller", async () => {
+    const mutex = new KeyedMutex();
+    const failing = mutex.run("a", async () => {
+      throw new Error("boom");
+    });
+    let ran = false;
+    const next = mutex.run("a", async () => {
+      ran = true;
+    });
+
+    await expect(failing).rejects.toThrow("boom");
+    await expect(next).resolves.toBeUndefined();
+    expect(ran).toBe(true);
+  });
+});
@@ -0,0 +1,23 @@
+/**
+ * Serializes async work per key: work for one key runs one at a time, in call order,
+ * while different keys run concurrently
+ * A key's entry is dropped once its last queued work settles
+ */
+export class KeyedMutex {
+  private locks: Map<string, Promise<void>> = new Map();
+
+  async run(key: string, fn: () => Promise<void>): Promise<void> {
+    const previous = this.locks.get(key) || Promise.resolve();
+    const current = previous.then(fn, fn);
+    const settled = current.catch(() => undefined);
+    this.locks.set(key, settled);
+
+    try {
+      await current;
+    } finally {
+      if (this.locks.get(key) === settled) {
+        this.locks.delete(key);
+      }
+    }
+  }
+}
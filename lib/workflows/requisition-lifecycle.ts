@@ -0,0 +1,263 @@
+import { z } from "zod";
+import { EventBus, getEventBus } from "@/lib/events/event-bus";
+import { H2RRequisitionClient, getH2RRequisitionClient } from "@/lib/services/h2r-client";
+import { TicketingClient, getTicketingClient } from "@/lib/services/ticketing-client";
+import { EventOf } from "@/types/events";
+import { KeyedMutex } from "./keyed-mutex";
+import { createWorkflowStateStore, IWorkflowStateStore } from "./state-store";
+
+/**
+ * Requisition saga status
+ */
+export type RequisitionSagaStatus =
+  | "opening_tickets"
+  | "awaiting_tickets"
+  | "completed"
+  | "compensating"
+  | "compensated";
+
+/**
+ * Persisted requisition saga state
+ */
+export interface RequisitionSagaState {
+  id: string;
+  requisitionId: string;
+  status: RequisitionSagaStatus;
+  ticketIds: string[];
+  closedTicketIds: string[];
+  correlationId?: string;
+  // Last failure while opening tickets; the saga stays in opening_tickets so a redelivery resumes it
+  error?: string;
+  startedAt: string;
+  updatedAt: string;
+}
+
+const RequisitionSagaStateSchema: z.ZodType<RequisitionSagaState> = z.object({
+  id: z.string(),
+  requisitionId: z.string(),
+  status: z.enum(["opening_tickets", "awaiting_tickets", "completed", "compensating", "compensated"]),
+  ticketIds: z.array(z.string()),
+  closedTicketIds: z.array(z.string()),
+  correlationId: z.string().optional(),
+  error: z.string().optional(),
+  startedAt: z.string(),
+  updatedAt: z.string(),
+});
+
+/**
+ * Requisition saga dependencies
+ */
+export interface RequisitionSagaDependencies {
+  eventBus: EventBus;
+  requisitions: H2RRequisitionClient;
+  tickets: TicketingClient;
+  store: IWorkflowStateStore<RequisitionSagaState>;
+}
+
+const TERMINAL_STATUSES: RequisitionSagaStatus[] = ["completed", "compensated"];
+
+/**
+ * Hiring requisition lifecycle process manager
+ * Opens onboarding tickets on approval, completes the requisition once every linked ticket
+ * is closed, and cancels open tickets if the requisition is cancelled mid-flight
+ */
+export class RequisitionLifecycleSaga {
+  private deps: RequisitionSagaDependencies;
+  private subscriptionIds: string[] = [];
+  // Serializes work per requisition so concurrent ticket closures cannot complete it twice
+  private locks = new KeyedMutex();
+
+  constructor(deps?: Partial<RequisitionSagaDependencies>) {
+    this.deps = {
+      eventBus: deps?.eventBus || getEventBus(),
+      requisitions: deps?.requisitions || getH2RRequisitionClient(),
+      tickets: deps?.tickets || getTicketingClient(),
+      store: deps?.store || createWorkflowStateStore("requisition-lifecycle", RequisitionSagaStateSchema),
+    };
+  }
+
+  /**
+   * Subscribe to the events that drive the saga
+   * Subscriptions are idempotent, so an event redelivered after it was handled is skipped
+   */
+  start(): void {
+    if (this.subscriptionIds.length > 0) return;
+    const { eventBus } = this.deps;
+
+    this.subscriptionIds = [
+      eventBus.on("h2r.requisition.approved", (event) => this.handleApproved(event), {
+        id: "requisition-lifecycle:approved",
+        idempotent: true,
+      }),
+      eventBus.on("ticket.closed", (event) => this.handleTicketClosed(event), {
+        id: "requisition-lifecycle:ticket-closed",
+        idempotent: true,
+      }),
+      eventBus.on("h2r.requisition.cancelled", (event) => this.handleCancelled(event), {
+        id: "requisition-lifecycle:cancelled",
+        idempotent: true,
+      }),
+    ];
+  }
+
+  /**
+   * Unsubscribe from all events
+   */
+  stop(): void {
+    this.subscriptionIds.forEach((id) => this.deps.eventBus.unsubscribe(id));
+    this.subscriptionIds = [];
+  }
+
+  /**
+   * Get saga state for a requisition
+   */
+  async getState(requisitionId: string): Promise<RequisitionSagaState | undefined> {
+    return this.deps.store.get(requisitionId);
+  }
+
+  /**
+   * List all saga states
+   */
+  async listStates(): Promise<RequisitionSagaState[]> {
+    return this.deps.store.list();
+  }
+
+  /**
+   * Open procurement and facilities tickets and link them to the requisition
+   */
+  async handleApproved(event: EventOf<"h2r.requisition.approved">): Promise<void> {
+    const { requisitionId } = event.payload;
+
+    await this.locks.run(requisitionId, async () => {
+      const existing = await this.deps.store.get(requisitionId);
+      if (existing && existing.status !== "opening_tickets") return;
+
+      const requisitionResult = await this.deps.requisitions.getById(requisitionId);
+      if (!requisitionResult.success || !requisitionResult.data) {
+        throw new Error(`Requisition ${requisitionId} not found`);
+      }
+      const requisition = requisitionResult.data;
+
+      const state: RequisitionSagaState = existing || {
+        id: requisitionId,
+        requisitionId,
+        status: "opening_tickets",
+        ticketIds: [],
+        closedTicketIds: [],
+        correlationId: event.correlationId,
+        startedAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString(),
+      };
+      await this.saveState(state);
+
+      const details = `${requisition.title} (${requisition.department})`;
+      const openers = [
+        () => this.deps.tickets.createProcurementTicket(requisitionId, requisition.requestedBy, details),
+        () => this.deps.tickets.createFacilitiesTicket(requisitionId, requisition.requestedBy, details),
+      ];
+
+      // Resume after a crash: skip tickets already opened in a previous attempt
+      for (const open of openers.slice(state.ticketIds.length)) {
+        const ticketResult = await open();
+        if (!ticketResult.success || !ticketResult.data) {
+          // Not terminal: the redelivered event resumes here, and a cancellation still compensates
+          // the tickets opened so far
+          const error = ticketResult.error || "Failed to open ticket";
+          await this.saveState({ ...state, error });
+          throw new Error(`Failed to open onboarding ticket for requisition ${requisitionId}: ${error}`);
+        }
+
+        const ticketId = ticketResult.data.id;
+        await this.deps.requisitions.addTicket(requisitionId, ticketId);
+        state.ticketIds = [...state.ticketIds, ticketId];
+        await this.saveState(state);
+      }
+
+      await this.deps.requisitions.updateStatus(requisitionId, "in_progress");
+      await this.saveState({ ...state, status: "awaiting_tickets", error: undefined });
+    });
+  }
+
+  /**
+   * Complete the requisition once every linked ticket is closed
+   */
+  async handleTicketClosed(event: EventOf<"ticket.closed">): Promise<void> {
+    const { ticketId, relatedEntityId } = event.payload;
+    const state = await this.findStateForTicket(ticketId, relatedEntityId);
+    if (!state) return;
+
+    await this.locks.run(state.requisitionId, async () => {
+      const current = await this.deps.store.get(state.requisitionId);
+      if (!current || current.status !== "awaiting_tickets") return;
+
+      const closedTicketIds = current.closedTicketIds.includes(ticketId)
+        ? current.closedTicketIds
+        : [...current.closedTicketIds, ticketId];
+      await this.saveState({ ...current, closedTicketIds });
+
+      const allClosed = await this.deps.requisitions.areAllTicketsClosed(current.requisitionId, this.deps.tickets);
+      if (!allClosed) return;
+
+      const result = await this.deps.requisitions.complete(current.requisitionId);
+      if (!result.success) {
+        throw new Error(result.error || `Failed to complete requisition ${current.requisitionId}`);
+      }
+
+      // complete() publishes h2r.requisition.completed
+      await this.saveState({ ...current, closedTicketIds, status: "completed" });
+    });
+  }
+
+  /**
+   * Compensate: cancel tickets that are still open for a cancelled requisition
+   */
+  async handleCancelled(event: EventOf<"h2r.requisition.cancelled">): Promise<void> {
+    const { requisitionId } = event.payload;
+
+    await this.locks.run(requisitionId, async () => {
+      const state = await this.deps.store.get(requisitionId);
+      if (!state || TERMINAL_STATUSES.includes(state.status)) return;
+
+      await this.saveState({ ...state, status: "compensating" });
+
+      for (const ticketId of state.ticketIds) {
+        const ticketResult = await this.deps.tickets.getById(ticketId);
+        const status = ticketResult.data?.status;
+        if (ticketResult.success && status !== "closed" && status !== "cancelled") {
+          await this.deps.tickets.updateStatus(ticketId, "cancelled");
+        }
+      }
+
+      await this.saveState({ ...state, status: "compensated" });
+    });
+  }
+
+  /**
+   * Find the saga that owns a ticket
+   */
+  private async findStateForTicket(
+    ticketId: string,
+    relatedEntityId?: string
+  ): Promise<RequisitionSagaState | undefined> {
+    if (relatedEntityId) {
+      const state = await this.deps.store.get(relatedEntityId);
+      if (state?.ticketIds.includes(ticketId)) return state;
+    }
+    const states = await this.deps.store.list();
+    return states.find((s) => s.ticketIds.includes(ticketId));
+  }
+
+  private async saveState(state: RequisitionSagaState): Promise<void> {
+    await this.deps.store.save({ ...state, updatedAt: new Date().toISOString() });
+  }
+}
+
+// Singleton instance
+let requisitionSagaInstance: RequisitionLifecycleSaga | null = null;
+
+export function getRequisitionLifecycleSaga(): RequisitionLifecycleSaga {
+  if (!requisitionSagaInstance) {
+    requisitionSagaInstance = new RequisitionLifecycleSaga();
+  }
+  return requisitionSagaInstance;
+}
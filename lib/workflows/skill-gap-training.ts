@@ -0,0 +1,301 @@
+import { z } from "zod";
+import { EventBus, getEventBus } from "@/lib/events/event-bus";
+import { LMSCourseClient, LMSEnrollmentClient, getLMSCourseClient, getLMSEnrollmentClient } from "@/lib/services/lms-client";
+import { SkillGapClient, getSkillGapClient } from "@/lib/services/performance-client";
+import { TicketingClient, getTicketingClient } from "@/lib/services/ticketing-client";
+import { EventOf } from "@/types/events";
+import { Course } from "@/types/services";
+import { KeyedMutex } from "./keyed-mutex";
+import { createWorkflowStateStore, IWorkflowStateStore } from "./state-store";
+
+/**
+ * Skill gap training status
+ */
+export type SkillGapTrainingStatus = "training" | "resolved" | "exhausted" | "no_courses";
+
+/**
+ * Persisted skill gap training state
+ */
+export interface SkillGapTrainingState {
+  id: string;
+  skillGapId: string;
+  employeeId: string;
+  skillName: string;
+  status: SkillGapTrainingStatus;
+  recommendedCourseIds: string[];
+  completedCourseIds: string[];
+  activeCourseId?: string;
+  activeEnrollmentId?: string;
+  activeTicketId?: string;
+  startedAt: string;
+  updatedAt: string;
+}
+
+const SkillGapTrainingStateSchema: z.ZodType<SkillGapTrainingState> = z.object({
+  id: z.string(),
+  skillGapId: z.string(),
+  employeeId: z.string(),
+  skillName: z.string(),
+  status: z.enum(["training", "resolved", "exhausted", "no_courses"]),
+  recommendedCourseIds: z.array(z.string()),
+  completedCourseIds: z.array(z.string()),
+  activeCourseId: z.string().optional(),
+  activeEnrollmentId: z.string().optional(),
+  activeTicketId: z.string().optional(),
+  startedAt: z.string(),
+  updatedAt: z.string(),
+});
+
+/**
+ * Skill gap training options
+ */
+export interface SkillGapTrainingOptions {
+  // Maximum number of courses recommended per skill gap
+  maxRecommendations: number;
+  // Skill level gained by completing a course at each level, scaled by score when present
+  levelGain: Record<Course["level"], number>;
+  // Reporter recorded on training tickets
+  reporterId: string;
+}
+
+/**
+ * Skill gap training dependencies
+ */
+export interface SkillGapTrainingDependencies {
+  eventBus: EventBus;
+  courses: LMSCourseClient;
+  enrollments: LMSEnrollmentClient;
+  skillGaps: SkillGapClient;
+  tickets: TicketingClient;
+  store: IWorkflowStateStore<SkillGapTrainingState>;
+}
+
+const DEFAULT_OPTIONS: SkillGapTrainingOptions = {
+  maxRecommendations: 3,
+  levelGain: { beginner: 15, intermediate: 25, advanced: 35 },
+  reporterId: "system",
+};
+
+/**
+ * Closed-loop skill gap to training pipeline
+ * Recommends courses and enrolls the employee when a gap is identified, then raises the skill
+ * level on each completion and moves on to the next course until the gap is resolved
+ */
+export class SkillGapTrainingPipeline {
+  private deps: SkillGapTrainingDependencies;
+  private options: SkillGapTrainingOptions;
+  private subscriptionIds: string[] = [];
+  // Serializes work per skill gap so a redelivered or concurrent event cannot enroll the employee twice
+  private locks = new KeyedMutex();
+
+  constructor(deps?: Partial<SkillGapTrainingDependencies>, options?: Partial<SkillGapTrainingOptions>) {
+    this.deps = {
+      eventBus: deps?.eventBus || getEventBus(),
+      courses: deps?.courses || getLMSCourseClient(),
+      enrollments: deps?.enrollments || getLMSEnrollmentClient(),
+      skillGaps: deps?.skillGaps || getSkillGapClient(),
+      tickets: deps?.tickets || getTicketingClient(),
+      store: deps?.store || createWorkflowStateStore("skill-gap-training", SkillGapTrainingStateSchema),
+    };
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Subscribe to the events that drive the pipeline
+   * Subscriptions are idempotent, so an event redelivered after it was handled is skipped
+   */
+  start(): void {
+    if (this.subscriptionIds.length > 0) return;
+    const { eventBus } = this.deps;
+
+    this.subscriptionIds = [
+      eventBus.on("performance.skill_gap.identified", (event) => this.handleSkillGapIdentified(event), {
+        id: "skill-gap-training:skill-gap-identified",
+        idempotent: true,
+      }),
+      eventBus.on("lms.course.completed", (event) => this.handleCourseCompleted(event), {
+        id: "skill-gap-training:course-completed",
+        idempotent: true,
+      }),
+    ];
+  }
+
+  /**
+   * Unsubscribe from all events
+   */
+  stop(): void {
+    this.subscriptionIds.forEach((id) => this.deps.eventBus.unsubscribe(id));
+    this.subscriptionIds = [];
+  }
+
+  /**
+   * Get pipeline state for a skill gap
+   */
+  async getState(skillGapId: string): Promise<SkillGapTrainingState | undefined> {
+    return this.deps.store.get(skillGapId);
+  }
+
+  /**
+   * Recommend courses, enroll the employee in the first one and open a training ticket
+   */
+  async handleSkillGapIdentified(event: EventOf<"performance.skill_gap.identified">): Promise<void> {
+    const { skillGapId, employeeId, skillName } = event.payload;
+
+    await this.locks.run(skillGapId, async () => {
+      const existing = await this.deps.store.get(skillGapId);
+      if (existing) {
+        // Resume a pipeline interrupted between saving its state and assigning a course
+        if (existing.status === "training" && !existing.activeCourseId) {
+          await this.assignNextCourse(existing);
+        }
+        return;
+      }
+
+      const gapResult = await this.deps.skillGaps.getById(skillGapId);
+      if (!gapResult.success || !gapResult.data) {
+        throw new Error(`Skill gap ${skillGapId} not found`);
+      }
+
+      const coursesResult = await this.deps.courses.getRecommendedForSkillGap(skillName);
+      const courses = (coursesResult.data || [])
+        .filter((course) => course.status === "published")
+        .slice(0, this.options.maxRecommendations);
+
+      for (const course of courses) {
+        if (!gapResult.data.recommendedCourseIds.includes(course.id)) {
+          await this.deps.skillGaps.addRecommendedCourse(skillGapId, course.id);
+        }
+      }
+
+      const state: SkillGapTrainingState = {
+        id: skillGapId,
+        skillGapId,
+        employeeId,
+        skillName,
+        status: courses.length > 0 ? "training" : "no_courses",
+        recommendedCourseIds: courses.map((course) => course.id),
+        completedCourseIds: [],
+        startedAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString(),
+      };
+      await this.saveState(state);
+
+      if (courses.length > 0) {
+        await this.assignNextCourse(state);
+      }
+    });
+  }
+
+  /**
+   * Raise the skill level for a completed course and resolve or continue training
+   */
+  async handleCourseCompleted(event: EventOf<"lms.course.completed">): Promise<void> {
+    const { enrollmentId, employeeId, courseId, score } = event.payload;
+    const isActiveCourse = (s: SkillGapTrainingState) =>
+      s.status === "training" &&
+      (s.activeEnrollmentId === enrollmentId || (s.employeeId === employeeId && s.activeCourseId === courseId));
+
+    const states = await this.deps.store.list();
+    const found = states.find(isActiveCourse);
+    if (!found) return;
+
+    await this.locks.run(found.skillGapId, async () => {
+      // A concurrent or redelivered completion may already have moved the pipeline on
+      const state = await this.deps.store.get(found.skillGapId);
+      if (!state || !isActiveCourse(state)) return;
+
+      const [gapResult, courseResult] = await Promise.all([
+        this.deps.skillGaps.getById(state.skillGapId),
+        this.deps.courses.getById(courseId),
+      ]);
+      if (!gapResult.success || !gapResult.data) {
+        throw new Error(`Skill gap ${state.skillGapId} not found`);
+      }
+
+      const baseGain = courseResult.data ? this.options.levelGain[courseResult.data.level] : this.options.levelGain.beginner;
+      const gain = score !== undefined ? Math.round((baseGain * score) / 100) : baseGain;
+      const newLevel = Math.min(100, gapResult.data.currentLevel + gain);
+
+      const updated = await this.deps.skillGaps.updateSkillLevel(state.skillGapId, newLevel);
+      if (!updated.success || !updated.data) {
+        throw new Error(updated.error || `Failed to update skill gap ${state.skillGapId}`);
+      }
+
+      if (state.activeTicketId) {
+        await this.deps.tickets.closeTicket(state.activeTicketId);
+      }
+
+      const next: SkillGapTrainingState = {
+        ...state,
+        completedCourseIds: [...state.completedCourseIds, courseId],
+        activeCourseId: undefined,
+        activeEnrollmentId: undefined,
+        activeTicketId: undefined,
+      };
+
+      if (newLevel >= updated.data.requiredLevel) {
+        await this.saveState({ ...next, status: "resolved" });
+        return;
+      }
+
+      await this.saveState(next);
+      await this.assignNextCourse(next);
+    });
+  }
+
+  /**
+   * Enroll the employee in the next recommended course and open a training ticket
+   */
+  private async assignNextCourse(state: SkillGapTrainingState): Promise<void> {
+    const courseId = state.recommendedCourseIds.find((id) => !state.completedCourseIds.includes(id));
+    if (!courseId) {
+      await this.saveState({ ...state, status: "exhausted" });
+      return;
+    }
+
+    const enrollment = await this.findOrCreateEnrollment(state.employeeId, courseId);
+    const ticketResult = await this.deps.tickets.createTrainingTicket(
+      state.employeeId,
+      courseId,
+      this.options.reporterId,
+      `Close "${state.skillName}" skill gap (${state.skillGapId})`
+    );
+
+    await this.saveState({
+      ...state,
+      status: "training",
+      activeCourseId: courseId,
+      activeEnrollmentId: enrollment,
+      activeTicketId: ticketResult.data?.id,
+    });
+  }
+
+  /**
+   * Reuse an active enrollment for the course if the employee already has one
+   */
+  private async findOrCreateEnrollment(employeeId: string, courseId: string): Promise<string> {
+    const active = await this.deps.enrollments.getActiveEnrollments(employeeId);
+    const existing = active.data?.find((enrollment) => enrollment.courseId === courseId);
+    if (existing) return existing.id;
+
+    const result = await this.deps.enrollments.enroll(employeeId, courseId);
+    if (!result.success || !result.data) {
+      throw new Error(result.error || `Failed to enroll ${employeeId} in course ${courseId}`);
+    }
+    return result.data.id;
+  }
+
+  private async saveState(state: SkillGapTrainingState): Promise<void> {
+    await this.deps.store.save({ ...state, updatedAt: new Date().toISOString() });
+  }
+}
+
+// Singleton instance
+let skillGapPipelineInstance: SkillGapTrainingPipeline | null = null;
+
+export function getSkillGapTrainingPipeline(): SkillGapTrainingPipeline {
+  if (!skillGapPipelineInstance) {
+    skillGapPipelineInstance = new SkillGapTrainingPipeline();
+  }
+  return skillGapPipelineInstance;
+}
@@ -0,0 +1,89 @@
+import path from "path";
+import { z } from "zod";
+import { JsonSnapshotFile } from "@/lib/events/file-stores";
+
+/**
+ * Workflow state store interface
+ */
+export interface IWorkflowStateStore<T extends { id: string }> {
+  get(id: string): Promise<T | undefined>;
+  save(state: T): Promise<void>;
+  delete(id: string): Promise<void>;
+  list(): Promise<T[]>;
+}
+
+/**
+ * In-memory workflow state store
+ */
+export class InMemoryWorkflowStateStore<T extends { id: string }> implements IWorkflowStateStore<T> {
+  protected states: Map<string, T> = new Map();
+
+  async get(id: string): Promise<T | undefined> {
+    return this.states.get(id);
+  }
+
+  async save(state: T): Promise<void> {
+    this.states.set(state.id, state);
+  }
+
+  async delete(id: string): Promise<void> {
+    this.states.delete(id);
+  }
+
+  async list(): Promise<T[]> {
+    return Array.from(this.states.values());
+  }
+}
+
+/**
+ * File-backed workflow state store
+ * Keeps all states in memory and rewrites a single JSON file on every change
+ * States are validated when loading; a file with invalid states is kept aside rather than overwritten
+ */
+export class FileWorkflowStateStore<T extends { id: string }> extends InMemoryWorkflowStateStore<T> {
+  private file: JsonSnapshotFile<T>;
+
+  constructor(filePath: string, schema: z.ZodType<T>) {
+    super();
+    this.file = new JsonSnapshotFile(filePath, schema, (states) =>
+      states.forEach((state) => this.states.set(state.id, state))
+    );
+  }
+
+  async get(id: string): Promise<T | undefined> {
+    await this.file.ensureLoaded();
+    return super.get(id);
+  }
+
+  async save(state: T): Promise<void> {
+    await this.file.ensureLoaded();
+    await super.save(state);
+    await this.file.write(Array.from(this.states.values()));
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.file.ensureLoaded();
+    await super.delete(id);
+    await this.file.write(Array.from(this.states.values()));
+  }
+
+  async list(): Promise<T[]> {
+    await this.file.ensureLoaded();
+    return super.list();
+  }
+}
+
+/**
+ * Create the configured workflow state store
+ * EVENT_STORE=memory keeps state in memory only; otherwise it is written under WORKFLOW_STATE_DIR
+ */
+export function createWorkflowStateStore<T extends { id: string }>(
+  name: string,
+  schema: z.ZodType<T>
+): IWorkflowStateStore<T> {
+  if (process.env.EVENT_STORE === "memory") {
+    return new InMemoryWorkflowStateStore<T>();
+  }
+  const dir = process.env.WORKFLOW_STATE_DIR || path.join(process.cwd(), ".data", "workflows");
+  return new FileWorkflowStateStore<T>(path.join(dir, `${name}.json`), schema);
+}
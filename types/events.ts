@@ -6,6 +6,7 @@ export const EventTypeSchema = z.enum([
   "h2r.requisition.created",
   "h2r.requisition.approved",
   "h2r.requisition.completed",
+  "h2r.requisition.cancelled",
   "h2r.employee.onboarded",
   
   // LMS events
@@ -31,9 +32,23 @@ export const EventTypeSchema = z.enum([
   "performance.kpi.updated",
   "performance.skill_gap.identified",
   "performance.review.scheduled",
+
+  // Webhook events
+  "webhook.ping",
+  "webhook.circuit_opened",
 ]);
 export type EventType = z.infer<typeof EventTypeSchema>;
 
+// Subscription pattern: an exact event type, or a wildcard such as "ticket.*", "h2r.**" or "*"
+export type EventPattern =
+  | EventType
+  | "*"
+  | "**"
+  | `${string}.*`
+  | `${string}.**`
+  | `${string}.*.${string}`
+  | `${string}.**.${string}`;
+
 // Base event schema
 export const BaseEventSchema = z.object({
   id: z.string(),
@@ -41,6 +56,9 @@ export const BaseEventSchema = z.object({
   timestamp: z.string().datetime(),
   source: z.string(),
   correlationId: z.string().optional(),
+  causationId: z.string().optional(),
+  // Payload schema version; events without one are version 1
+  schemaVersion: z.number().int().positive().optional(),
   metadata: z.record(z.string(), z.unknown()).optional(),
 });
 export type BaseEvent = z.infer<typeof BaseEventSchema>;
@@ -51,39 +69,353 @@ export const EventSchema = BaseEventSchema.extend({
 });
 export type Event = z.infer<typeof EventSchema>;
 
+// Per-event-type payload schemas
+// Loose objects: required identifiers are validated, additional context fields pass through
+export const EventPayloadSchemas = {
+  // H2R events
+  "h2r.requisition.created": z.looseObject({
+    requisitionId: z.string(),
+    department: z.string(),
+    requestedBy: z.string(),
+    title: z.string().optional(),
+  }),
+  "h2r.requisition.approved": z.looseObject({
+    requisitionId: z.string(),
+    department: z.string().optional(),
+    approvedBy: z.string().optional(),
+  }),
+  "h2r.requisition.completed": z.looseObject({
+    requisitionId: z.string(),
+    ticketIds: z.array(z.string()).optional(),
+  }),
+  "h2r.requisition.cancelled": z.looseObject({
+    requisitionId: z.string(),
+    reason: z.string().optional(),
+  }),
+  "h2r.employee.onboarded": z.looseObject({
+    employeeId: z.string(),
+    requisitionId: z.string().optional(),
+    department: z.string().optional(),
+  }),
+
+  // LMS events
+  "lms.course.enrolled": z.looseObject({
+    enrollmentId: z.string(),
+    employeeId: z.string(),
+    courseId: z.string(),
+  }),
+  "lms.course.started": z.looseObject({
+    enrollmentId: z.string(),
+    employeeId: z.string(),
+    courseId: z.string(),
+  }),
+  "lms.course.completed": z.looseObject({
+    enrollmentId: z.string(),
+    employeeId: z.string(),
+    courseId: z.string(),
+    score: z.number().optional(),
+  }),
+  "lms.course.dropped": z.looseObject({
+    enrollmentId: z.string(),
+    employeeId: z.string(),
+    courseId: z.string(),
+  }),
+
+  // WFM events
+  "wfm.shift.scheduled": z.looseObject({
+    shiftId: z.string(),
+    employeeId: z.string(),
+    date: z.string(),
+    startTime: z.string(),
+    endTime: z.string(),
+  }),
+  "wfm.shift.completed": z.looseObject({
+    shiftId: z.string(),
+    employeeId: z.string(),
+    date: z.string().optional(),
+  }),
+  "wfm.attendance.recorded": z.looseObject({
+    attendanceId: z.string(),
+    employeeId: z.string(),
+    date: z.string(),
+    status: z.enum(["present", "absent", "late", "half_day", "on_leave"]),
+  }),
+
+  // Ticketing events
+  "ticket.created": z.looseObject({
+    ticketId: z.string(),
+    category: z.string(),
+    priority: z.enum(["low", "medium", "high", "critical"]).optional(),
+    relatedEntityId: z.string().optional(),
+  }),
+  "ticket.assigned": z.looseObject({
+    ticketId: z.string(),
+    assigneeId: z.string(),
+  }),
+  "ticket.updated": z.looseObject({
+    ticketId: z.string(),
+    changes: z.record(z.string(), z.unknown()).optional(),
+  }),
+  "ticket.resolved": z.looseObject({
+    ticketId: z.string(),
+    relatedEntityId: z.string().optional(),
+  }),
+  "ticket.closed": z.looseObject({
+    ticketId: z.string(),
+    relatedEntityId: z.string().optional(),
+  }),
+
+  // Performance events
+  "performance.assessment.created": z.looseObject({
+    assessmentId: z.string(),
+    employeeId: z.string(),
+    score: z.number(),
+  }),
+  "performance.kpi.updated": z.looseObject({
+    employeeId: z.string(),
+    kpiId: z.string(),
+    metricId: z.string().optional(),
+    period: z.string().optional(),
+    actualValue: z.number().optional(),
+  }),
+  "performance.skill_gap.identified": z.looseObject({
+    employeeId: z.string(),
+    skillGapId: z.string(),
+    skillName: z.string(),
+  }),
+  "performance.review.scheduled": z.looseObject({
+    employeeId: z.string(),
+    reviewDate: z.string().optional(),
+    reviewerId: z.string().optional(),
+  }),
+
+  // Webhook events
+  "webhook.ping": z.looseObject({
+    webhookId: z.string(),
+  }),
+  "webhook.circuit_opened": z.looseObject({
+    webhookId: z.string(),
+    url: z.string().optional(),
+    consecutiveFailures: z.number(),
+    lastError: z.string().optional(),
+  }),
+} satisfies Record<EventType, z.ZodType<Record<string, unknown>>>;
+
+export type EventPayloadMap = {
+  [K in EventType]: z.infer<(typeof EventPayloadSchemas)[K]>;
+};
+export type EventPayload<T extends EventType> = EventPayloadMap[T];
+
+// Event with a payload typed by its event type
+export type EventOf<T extends EventType> = BaseEvent & {
+  type: T;
+  payload: EventPayload<T>;
+};
+
+// Event type and payload pair, before it is wrapped in an event envelope
+export type DomainEvent = { [K in EventType]: { type: K; payload: EventPayload<K> } }[EventType];
+
+// Discriminated union of all typed events
+const typedEventSchema = <T extends EventType>(type: T) =>
+  BaseEventSchema.extend({
+    type: z.literal(type),
+    payload: EventPayloadSchemas[type],
+  });
+
+export const TypedEventSchema = z.discriminatedUnion("type", [
+  typedEventSchema("h2r.requisition.created"),
+  typedEventSchema("h2r.requisition.approved"),
+  typedEventSchema("h2r.requisition.completed"),
+  typedEventSchema("h2r.requisition.cancelled"),
+  typedEventSchema("h2r.employee.onboarded"),
+  typedEventSchema("lms.course.enrolled"),
+  typedEventSchema("lms.course.started"),
+  typedEventSchema("lms.course.completed"),
+  typedEventSchema("lms.course.dropped"),
+  typedEventSchema("wfm.shift.scheduled"),
+  typedEventSchema("wfm.shift.completed"),
+  typedEventSchema("wfm.attendance.recorded"),
+  typedEventSchema("ticket.created"),
+  typedEventSchema("ticket.assigned"),
+  typedEventSchema("ticket.updated"),
+  typedEventSchema("ticket.resolved"),
+  typedEventSchema("ticket.closed"),
+  typedEventSchema("performance.assessment.created"),
+  typedEventSchema("performance.kpi.updated"),
+  typedEventSchema("performance.skill_gap.identified"),
+  typedEventSchema("performance.review.scheduled"),
+  typedEventSchema("webhook.ping"),
+  typedEventSchema("webhook.circuit_opened"),
+]);
+export type TypedEvent = { [K in EventType]: EventOf<K> }[EventType];
+
+// Event types matched by a subscription pattern (falls back to all types for complex patterns)
+export type EventTypesMatching<P extends string> = P extends EventType
+  ? P
+  : P extends "*" | "**"
+    ? EventType
+    : P extends `${infer Prefix}.**`
+      ? Extract<EventType, `${Prefix}.${string}`>
+      : P extends `${infer Prefix}.*`
+        ? Exclude<Extract<EventType, `${Prefix}.${string}`>, `${Prefix}.${string}.${string}`>
+        : EventType;
+
+// Delivery context passed to handlers alongside the event
+export interface EventHandlerContext {
+  offset: number;
+  replayed?: boolean;
+  // Delivery attempt, starting at 1 (retries from the event queue increase it)
+  attempt?: number;
+  // Key identifying the logical event across redeliveries (the event ID unless the producer set one)
+  idempotencyKey: string;
+  // Signal failure without throwing; queued events are retried and eventually dead-lettered
+  nack(reason: string | Error): void;
+}
+
 // Event handler type
-export type EventHandler = (event: Event) => Promise<void>;
+export type EventHandler = (event: Event, context: EventHandlerContext) => Promise<void>;
+
+// Event handler receiving a typed payload
+export type TypedEventHandler<T extends EventType> = (
+  event: EventOf<T>,
+  context: EventHandlerContext
+) => Promise<void>;
 
 // Event subscription
 export interface EventSubscription {
   id: string;
-  eventType: EventType | EventType[];
+  eventType: EventPattern | EventPattern[];
   handler: EventHandler;
   filter?: (event: Event) => boolean;
+  // Skip events whose idempotency key this subscription already processed; requires a stable id
+  idempotent?: boolean;
+}
+
+// Where a publish originated
+export interface EventPublishOptions {
+  origin?: "direct" | "queue" | "inbound";
+  messageId?: string;
+  attempt?: number;
+  // Producer-supplied key for the logical event; defaults to the event ID
+  idempotencyKey?: string;
+  // Throw EventDispatchError when any handler throws or nacks (the queue relies on this to retry)
+  throwOnFailure?: boolean;
+  // Redeliver an already stored event, optionally to a subset of subscriptions
+  redelivery?: { offset: number; subscriptionIds?: string[] };
+  // Called with the store offset and the subscriptions about to run, before any handler runs
+  onDispatch?: (dispatch: { offset: number; subscriptionIds: string[] }) => void;
+  // Called as each handler settles, including after a caller stopped waiting for the publish
+  onHandled?: (result: HandlerResult) => void;
 }
 
+// Context shared by middleware for a single publish
+export interface EventMiddlewareContext {
+  event: Event;
+  options: EventPublishOptions;
+  // Per-handler outcomes, available after next() resolves
+  results: HandlerResult[];
+  // Store offset, set once the event has been appended
+  offset?: number;
+  // Scratch space for middleware to share values
+  state: Record<string, unknown>;
+  vetoed: boolean;
+  vetoReason?: string;
+  veto(reason: string): void;
+}
+
+// Middleware runs in registration order around storage and handler dispatch;
+// code before next() runs before dispatch, code after it runs once all handlers finished
+export type EventMiddleware = (context: EventMiddlewareContext, next: () => Promise<void>) => Promise<void>;
+
 // Event bus interface
 export interface IEventBus {
-  publish(event: Event): Promise<void>;
+  publish(event: Event, options?: EventPublishOptions): Promise<void>;
   subscribe(subscription: EventSubscription): string;
   unsubscribe(subscriptionId: string): void;
   getSubscriptions(): EventSubscription[];
 }
 
 // Webhook configuration
+// Outbound webhook body: the raw event, selected event fields, a JSON template, or a Slack message
+// Templates interpolate {{path}} placeholders such as {{payload.ticketId}}; see lib/events/webhook-payloads.ts
+export const WebhookPayloadTemplateSchema = z.discriminatedUnion("format", [
+  z.object({ format: z.literal("event") }),
+  z.object({ format: z.literal("fields"), fields: z.array(z.string().min(1)).min(1) }),
+  z.object({ format: z.literal("template"), template: z.unknown() }),
+  z.object({ format: z.literal("slack"), text: z.string().min(1).optional() }),
+]);
+export type WebhookPayloadTemplate = z.infer<typeof WebhookPayloadTemplateSchema>;
+
+// CloudEvents 1.0 HTTP content mode: the whole CloudEvent as a JSON body (structured),
+// or ce-* attribute headers with the data as the body (binary); see lib/events/cloudevents.ts
+export const CloudEventsModeSchema = z.enum(["structured", "binary"]);
+export type CloudEventsMode = z.infer<typeof CloudEventsModeSchema>;
+
 export const WebhookConfigSchema = z.object({
   id: z.string(),
   url: z.string().url(),
   events: z.array(EventTypeSchema),
   secret: z.string().optional(),
   active: z.boolean().default(true),
-  retryCount: z.number().default(3),
-  timeout: z.number().default(5000),
+  retryCount: z.number().int().min(0).default(3),
+  timeout: z.number().int().positive().default(5000),
+  // Only deliver matching events, e.g. payload.priority == "critical"; see lib/events/filter-expression.ts
+  filter: z.string().min(1).optional(),
+  // Body sent to the endpoint; the raw event when omitted
+  payloadTemplate: WebhookPayloadTemplateSchema.optional(),
+  // Send a CloudEvent instead of the raw event; the payload template, if any, becomes its data
+  cloudEvents: CloudEventsModeSchema.optional(),
+  // Set when the circuit breaker deactivated the webhook; cleared when it is re-enabled
+  circuitOpenedAt: z.string().datetime().optional(),
+  disabledReason: z.string().optional(),
   createdAt: z.string().datetime(),
   updatedAt: z.string().datetime(),
 });
 export type WebhookConfig = z.infer<typeof WebhookConfigSchema>;
 
+// Outbound webhook delivery waiting for its next attempt
+export const WebhookDeliverySchema = z.object({
+  id: z.string(),
+  webhookId: z.string(),
+  event: EventSchema,
+  // Attempts already made
+  attempts: z.number().int().min(0),
+  nextAttemptAt: z.string().datetime(),
+  lastError: z.string().optional(),
+  lastStatusCode: z.number().optional(),
+  createdAt: z.string().datetime(),
+});
+export type WebhookDelivery = z.infer<typeof WebhookDeliverySchema>;
+
+// Job re-sending stored events to one webhook; see lib/events/webhook-redelivery.ts
+// Events outside the webhook's types or filter count as skipped
+export const WebhookRedeliveryJobSchema = z.object({
+  id: z.string(),
+  webhookId: z.string(),
+  status: z.enum(["running", "completed", "cancelled", "failed"]),
+  startDate: z.string().datetime(),
+  endDate: z.string().datetime().optional(),
+  eventTypes: z.array(EventTypeSchema).optional(),
+  ratePerSecond: z.number().positive(),
+  // Store offset of the next event to read; a restarted job resumes here
+  nextOffset: z.number().int().nonnegative(),
+  // Latest store offset when the job started; later events reach the webhook as they are published
+  endOffset: z.number().int(),
+  // Stored events read in the range, before the webhook's types and filter are applied
+  scanned: z.number().int().min(0),
+  processed: z.number().int().min(0),
+  delivered: z.number().int().min(0),
+  // First attempts that failed; those deliveries are retried through the webhook's delivery queue
+  failed: z.number().int().min(0),
+  skipped: z.number().int().min(0),
+  // Timestamp of the last event read
+  lastEventTimestamp: z.string().datetime().optional(),
+  error: z.string().optional(),
+  startedAt: z.string().datetime(),
+  finishedAt: z.string().datetime().optional(),
+});
+export type WebhookRedeliveryJob = z.infer<typeof WebhookRedeliveryJobSchema>;
+
 // Queue message
 export const QueueMessageSchema = z.object({
   id: z.string(),
@@ -94,9 +426,47 @@ export const QueueMessageSchema = z.object({
   scheduledAt: z.string().datetime().optional(),
   processedAt: z.string().datetime().optional(),
   status: z.enum(["pending", "processing", "completed", "failed", "dead_letter"]),
+  // Failure details from the most recent attempt
+  error: z.string().optional(),
+  errorStack: z.string().optional(),
+  failedSubscriptionIds: z.array(z.string()).optional(),
+  lastAttemptAt: z.string().datetime().optional(),
+  // Offset assigned when the event was first stored, so retries do not append it again
+  offset: z.number().optional(),
+  // Producer-supplied key; a second enqueue with the same key inside the dedup window is dropped
+  idempotencyKey: z.string().optional(),
+  enqueuedAt: z.string().datetime().optional(),
+  // Messages sharing a partition key are processed one at a time, in enqueue order
+  partitionKey: z.string().optional(),
+  // Monotonic enqueue order, used for FIFO within a partition
+  sequence: z.number().optional(),
 });
 export type QueueMessage = z.infer<typeof QueueMessageSchema>;
 
+// Recurring schedule that enqueues an event on a cron expression, evaluated in a time zone
+export const RecurringScheduleSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  cron: z.string(),
+  timezone: z.string().default("UTC"),
+  eventType: EventTypeSchema,
+  payload: z.record(z.string(), z.unknown()),
+  source: z.string().default("scheduler"),
+  priority: z.number().default(0),
+  paused: z.boolean().default(false),
+  // Runs missed while the process was down: enqueue all of them, only the latest, or none
+  catchUp: z.enum(["all", "latest", "none"]).default("all"),
+  lastRunAt: z.string().datetime().optional(),
+  nextRunAt: z.string().datetime().optional(),
+  createdAt: z.string().datetime(),
+  updatedAt: z.string().datetime(),
+});
+export type RecurringSchedule = z.infer<typeof RecurringScheduleSchema>;
+
+// Fields accepted when creating a recurring schedule
+export type RecurringScheduleInput = Pick<RecurringSchedule, "name" | "cron" | "eventType" | "payload"> &
+  Partial<Pick<RecurringSchedule, "timezone" | "source" | "priority" | "paused" | "catchUp">>;
+
 // Event filter options
 export interface EventFilterOptions {
   eventTypes?: EventType[];
@@ -106,6 +476,118 @@ export interface EventFilterOptions {
   correlationId?: string;
 }
 
+// Causal tree node for a correlated chain of events
+export interface EventTraceNode {
+  offset: number;
+  event: Event;
+  children: EventTraceNode[];
+}
+
+// Event history entry filter options
+export interface EventHistoryFilterOptions extends EventFilterOptions {
+  eventId?: string;
+  subscriptionId?: string;
+  success?: boolean;
+  limit?: number;
+}
+
+// Stored event with its position in the event log
+export const StoredEventSchema = z.object({
+  offset: z.number().int().nonnegative(),
+  event: EventSchema,
+});
+export type StoredEvent = z.infer<typeof StoredEventSchema>;
+
+// Event store read options
+export interface EventStoreQuery extends EventFilterOptions {
+  fromOffset?: number;
+  fromTimestamp?: Date;
+  limit?: number;
+}
+
+// Event store interface
+export interface IEventStore {
+  append(event: Event): Promise<StoredEvent>;
+  read(query?: EventStoreQuery): Promise<StoredEvent[]>;
+  getLatestOffset(): Promise<number>;
+  clear(): Promise<void>;
+}
+
+// Queue persistence interface; implementations upsert messages and schedules by id
+export interface IQueueStore {
+  load(): Promise<QueueMessage[]>;
+  save(message: QueueMessage): Promise<void>;
+  remove(messageId: string): Promise<void>;
+  clear(): Promise<void>;
+  loadSchedules(): Promise<RecurringSchedule[]>;
+  saveSchedule(schedule: RecurringSchedule): Promise<void>;
+  removeSchedule(scheduleId: string): Promise<void>;
+}
+
+// Outbound webhook delivery persistence interface; implementations upsert by id
+export interface IWebhookDeliveryStore {
+  load(): Promise<WebhookDelivery[]>;
+  save(delivery: WebhookDelivery): Promise<void>;
+  remove(deliveryId: string): Promise<void>;
+}
+
+// Webhook redelivery job persistence interface; implementations upsert by id
+export interface IWebhookRedeliveryJobStore {
+  load(): Promise<WebhookRedeliveryJob[]>;
+  save(job: WebhookRedeliveryJob): Promise<void>;
+  remove(jobId: string): Promise<void>;
+}
+
+// Inbound webhook body that could not be turned into an event, kept for inspection
+export const QuarantinedPayloadSchema = z.object({
+  id: z.string(),
+  service: z.string(),
+  reason: z.enum(["invalid_body", "unknown_event", "invalid_payload"]),
+  error: z.string(),
+  details: z.array(z.object({ path: z.string(), message: z.string() })).optional(),
+  externalEventId: z.string().optional(),
+  externalEventType: z.string().optional(),
+  // Raw request body as received
+  body: z.string(),
+  receivedAt: z.string().datetime(),
+});
+export type QuarantinedPayload = z.infer<typeof QuarantinedPayloadSchema>;
+
+// Webhook registration persistence interface; implementations upsert by id
+export interface IWebhookStore {
+  load(): Promise<WebhookConfig[]>;
+  save(config: WebhookConfig): Promise<void>;
+  remove(webhookId: string): Promise<void>;
+}
+
+// Quarantine persistence interface; list returns entries oldest first
+export interface IQuarantineStore {
+  list(): Promise<QuarantinedPayload[]>;
+  add(entry: QuarantinedPayload): Promise<void>;
+  remove(entryId: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+// Ledger of idempotency keys already processed by each idempotent subscription
+export interface IProcessedKeyLedger {
+  has(key: string, subscriptionId: string): Promise<boolean>;
+  record(key: string, subscriptionId: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+// Outcome of a single subscription handling an event
+export const HandlerResultSchema = z.object({
+  subscriptionId: z.string(),
+  success: z.boolean(),
+  durationMs: z.number(),
+  error: z.string().optional(),
+  errorStack: z.string().optional(),
+  nacked: z.boolean().optional(),
+  // Idempotent handler skipped because the key was already processed
+  skipped: z.boolean().optional(),
+});
+export type HandlerResult = z.infer<typeof HandlerResultSchema>;
+
 // Event history entry
 export const EventHistoryEntrySchema = z.object({
   id: z.string(),
@@ -114,6 +596,8 @@ export const EventHistoryEntrySchema = z.object({
   processedAt: z.string().datetime(),
   success: z.boolean(),
   error: z.string().optional(),
+  handlerResults: z.array(HandlerResultSchema).default([]),
+  durationMs: z.number().optional(),
 });
 export type EventHistoryEntry = z.infer<typeof EventHistoryEntrySchema>;
 
@@ -0,0 +1,19 @@
+import path from "path";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@": path.resolve(__dirname),
+    },
+  },
+  test: {
+    environment: "node",
+    include: ["**/*.test.ts"],
+    exclude: ["node_modules/**", ".next/**"],
+    env: {
+      // Keep stores in memory so tests never touch .data/
+      EVENT_STORE: "memory",
+    },
+  },
+});